@@ -1,14 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { analyzeProperty } from './services/geminiService';
-import { PropertyData, FinancialParams, SavedAnalysis } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { analyzeProperty, stagesFor } from './services/analysisService';
+import {
+  CACHE_TTL_OPTIONS,
+  CACHE_TTL_STORAGE_KEY,
+  CachedAnalysis,
+  DEFAULT_CACHE_TTL_DAYS,
+  formatDataAge,
+  getCachedAnalysis,
+  loadCacheTtlDays,
+  putCachedAnalysis,
+} from './services/analysisCache';
+import {
+  AIProviderConfig,
+  AIProviderId,
+  AI_PROVIDERS,
+  AI_PROVIDER_STORAGE_KEY,
+  LEGACY_GEMINI_KEY_STORAGE_KEY,
+  createAIProvider,
+  findAIProvider,
+  isProviderConfigured,
+  loadProviderConfig,
+} from './services/aiProvider';
+import { AIError, AI_ERROR_MESSAGES, classifyError, isAbortError } from './services/aiErrors';
+import { buildMemoFacts, generateMemo } from './services/memoService';
+import { CalculationResult, FinancialParams, InvestmentMemo, SavedAnalysis, LenderThresholds, RentalStrategy, Scenario, BuyBox, BuyBoxResult, AnalysisStage } from './types';
 import { Dashboard } from './components/Dashboard';
+import { ScenarioBar } from './components/ScenarioBar';
+import { AnalysisProgress } from './components/AnalysisProgress';
+import { PortfolioDashboard } from './components/PortfolioDashboard';
+import { DealComparison } from './components/DealComparison';
+import { ScenarioComparison } from './components/ScenarioComparison';
+import { MemoPanel } from './components/MemoPanel';
 import { calculateMetrics, formatCurrency } from './utils/calculations';
+import { DEFAULT_PROJECTION_ASSUMPTIONS } from './utils/projections';
+import { exportElementToPdf, toFilenamePart } from './utils/export';
+import { migrateSavedAnalysis, migrateScenarios } from './utils/migrations';
+import { BASE_SCENARIO_NAME, createScenario, findActiveScenario } from './utils/scenarios';
+import { DEFAULT_TAX_ASSUMPTIONS } from './utils/taxes';
+import { DEFAULT_EXIT_ASSUMPTIONS, calculateExitAnalysis } from './utils/returns';
+import {
+  DEFAULT_LENDER_THRESHOLDS,
+  LENDER_THRESHOLDS_STORAGE_KEY,
+  loadLenderThresholds,
+} from './utils/underwriting';
+import { BUY_BOXES_STORAGE_KEY, evaluateBuyBoxes, loadBuyBoxes } from './utils/buyBox';
 
+// Terms every new analysis starts from. The open deal's params are not carried over, as its
+// value-add plan and prepayments are sized to that property.
 const DEFAULT_PARAMS: FinancialParams = {
   downPaymentPercent: 20,
   interestRate: 6.5,
   loanTermYears: 30,
   closingCostsPercent: 2,
+  ...DEFAULT_PROJECTION_ASSUMPTIONS,
+  ...DEFAULT_EXIT_ASSUMPTIONS,
+  ...DEFAULT_TAX_ASSUMPTIONS,
 };
 
 // --- Deploy Modal Component ---
@@ -78,22 +124,66 @@ const DeployModal = ({ onClose }: { onClose: () => void }) => {
 };
 
 function App() {
-  const [apiKey, setApiKey] = useState<string>('');
-  const [isKeyEntered, setIsKeyEntered] = useState(false);
+  const [aiConfig, setAiConfig] = useState<AIProviderConfig>({ provider: 'GEMINI', model: findAIProvider('GEMINI').defaultModel });
+  const [isProviderReady, setIsProviderReady] = useState(false);
 
   const [address, setAddress] = useState('');
+  const [rentalStrategy, setRentalStrategy] = useState<RentalStrategy>('LONG_TERM');
   const [loading, setLoading] = useState(false);
+  const [completedStages, setCompletedStages] = useState<AnalysisStage[]>([]);
+  const analysisAbort = useRef<AbortController | null>(null);
+  const memoAbort = useRef<AbortController | null>(null);
+  const [cacheTtlDays, setCacheTtlDays] = useState(DEFAULT_CACHE_TTL_DAYS);
+  // A fresh enough cached analysis for the searched address, awaiting "use cached / refresh"
+  const [cachedMatch, setCachedMatch] = useState<CachedAnalysis | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [propertyData, setPropertyData] = useState<PropertyData | null>(null);
-  const [financialParams, setFinancialParams] = useState<FinancialParams>(DEFAULT_PARAMS);
+  const [failure, setFailure] = useState<AIError | null>(null); // Details behind a failed analysis
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [activeScenarioId, setActiveScenarioId] = useState('');
+  const [showComparison, setShowComparison] = useState(false);
+  // Whether shared links and PDFs carry the active scenario or every scenario
+  const [exportScope, setExportScope] = useState<'ACTIVE' | 'ALL'>('ACTIVE');
   const [history, setHistory] = useState<SavedAnalysis[]>([]);
+  const [memo, setMemo] = useState<InvestmentMemo | undefined>(undefined); // Saved with the analysis
+  const [memoGenerating, setMemoGenerating] = useState(false);
+  const [memoError, setMemoError] = useState<string | null>(null);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [showDealComparison, setShowDealComparison] = useState(false);
+  const [lenderThresholds, setLenderThresholds] = useState<LenderThresholds>(DEFAULT_LENDER_THRESHOLDS);
+  const [buyBoxes, setBuyBoxes] = useState<BuyBox[]>([]);
+  const [criteriaFilter, setCriteriaFilter] = useState<'ALL' | 'PASS' | 'FAIL'>('ALL');
   const [sharedView, setSharedView] = useState(false);
   const [shareCopied, setShareCopied] = useState(false);
   const [appShareState, setAppShareState] = useState<'idle' | 'copied' | 'private'>('idle');
   const [generatingPdf, setGeneratingPdf] = useState(false);
   const [showDeployModal, setShowDeployModal] = useState(false);
 
-  // Load API Key, History, and Check URL for Shared Data on Mount
+  const activeScenario = findActiveScenario({ scenarios, activeScenarioId });
+  const propertyData = activeScenario?.property ?? null;
+  const financialParams = activeScenario?.params ?? DEFAULT_PARAMS;
+  const ownedHistory = history.filter(h => h.owned);
+  const comparedHistory = history.filter(h => comparedIds.includes(h.id));
+
+  // A deal meets criteria when it passes at least one buy box. Every saved deal is run through
+  // the metrics and each buy box's stress test, so this only reruns when those change rather
+  // than on every keystroke in the inputs.
+  const historyCriteria = useMemo(() => new Map<string, { metrics: CalculationResult; results: BuyBoxResult[]; meets: boolean }>(
+    history.flatMap(h => {
+      const scenario = findActiveScenario(h);
+      if (!scenario) return [];
+      const results = evaluateBuyBoxes(scenario.property, scenario.params, buyBoxes);
+      return [[h.id, { metrics: calculateMetrics(scenario.property, scenario.params), results, meets: results.some(r => r.passes) }]];
+    })
+  ), [history, buyBoxes]);
+  const filteredHistory = useMemo(() => buyBoxes.length === 0 || criteriaFilter === 'ALL'
+    ? history
+    : history.filter(h => historyCriteria.get(h.id)?.meets === (criteriaFilter === 'PASS')),
+  [history, historyCriteria, buyBoxes.length, criteriaFilter]);
+  const exportedScenarios = exportScope === 'ALL' || !activeScenario ? scenarios : [activeScenario];
+  const memoScenario = memo && scenarios.find(s => s.id === memo.scenarioId);
+  const memoFacts = memoScenario ? buildMemoFacts(memoScenario.property, memoScenario.params) : null;
+
+  // Load AI Provider, History, and Check URL for Shared Data on Mount
   useEffect(() => {
     // 1. Check for Shared Data in URL
     const urlParams = new URLSearchParams(window.location.search);
@@ -102,9 +192,11 @@ function App() {
     if (sharedDataRaw) {
       try {
         const decoded = JSON.parse(decodeURIComponent(sharedDataRaw));
-        if (decoded.property && decoded.params) {
-          setPropertyData(decoded.property);
-          setFinancialParams(decoded.params);
+        // Links shared before scenarios carry a single property and params pair
+        const sharedScenarios = migrateScenarios(decoded);
+        if (sharedScenarios.length > 0) {
+          setScenarios(sharedScenarios);
+          setActiveScenarioId(decoded.activeScenarioId ?? sharedScenarios[0].id);
           setSharedView(true); // Flag to bypass gatekeeper
         }
       } catch (e) {
@@ -113,97 +205,317 @@ function App() {
       }
     }
 
-    // 2. Load API Key
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) {
-      setApiKey(storedKey);
-      setIsKeyEntered(true);
+    // 2. Load AI Provider (saved settings, a legacy Gemini key, or env config)
+    const storedConfig = loadProviderConfig();
+    if (storedConfig) {
+      setAiConfig(storedConfig);
+      setIsProviderReady(isProviderConfigured(storedConfig));
     }
 
     // 3. Load History
     const storedHistory = localStorage.getItem('caprate_history');
     if (storedHistory) {
       try {
-        setHistory(JSON.parse(storedHistory));
+        // Older entries predate scenarios, the rent roll and the expense ledger
+        const parsed = JSON.parse(storedHistory);
+        setHistory(parsed.map(migrateSavedAnalysis));
       } catch (e) {
         console.error("Failed to parse history", e);
       }
     }
+
+    // 4. Load Lender Thresholds
+    setLenderThresholds(loadLenderThresholds(localStorage.getItem(LENDER_THRESHOLDS_STORAGE_KEY)));
+
+    // 5. Load Buy Boxes
+    setBuyBoxes(loadBuyBoxes(localStorage.getItem(BUY_BOXES_STORAGE_KEY)));
+
+    // 6. Load Cache TTL
+    setCacheTtlDays(loadCacheTtlDays(localStorage.getItem(CACHE_TTL_STORAGE_KEY)));
   }, []);
 
-  const handleKeySubmit = (e: React.FormEvent) => {
+  const handleLenderThresholdsChange = (thresholds: LenderThresholds) => {
+    setLenderThresholds(thresholds);
+    localStorage.setItem(LENDER_THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+  };
+
+  const handleBuyBoxesChange = (boxes: BuyBox[]) => {
+    setBuyBoxes(boxes);
+    localStorage.setItem(BUY_BOXES_STORAGE_KEY, JSON.stringify(boxes));
+  };
+
+  const handleCacheTtlChange = (days: number) => {
+    setCacheTtlDays(days);
+    localStorage.setItem(CACHE_TTL_STORAGE_KEY, String(days));
+  };
+
+  const handleProviderChange = (provider: AIProviderId) => {
+    setAiConfig({ ...aiConfig, provider, model: findAIProvider(provider).defaultModel });
+  };
+
+  const handleProviderSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (apiKey.trim().length > 10) {
-      localStorage.setItem('gemini_api_key', apiKey.trim());
-      setIsKeyEntered(true);
+    const config: AIProviderConfig = {
+      ...aiConfig,
+      model: aiConfig.model.trim(),
+      apiKey: aiConfig.apiKey?.trim() || undefined,
+      baseUrl: aiConfig.baseUrl?.trim() || undefined,
+    };
+    if (isProviderConfigured(config)) {
+      localStorage.setItem(AI_PROVIDER_STORAGE_KEY, JSON.stringify(config));
+      localStorage.removeItem(LEGACY_GEMINI_KEY_STORAGE_KEY);
+      setAiConfig(config);
+      setIsProviderReady(true);
     }
   };
 
   const handleLogout = () => {
-    if (window.confirm("This will clear your API Key. Your saved history will remain.")) {
-      localStorage.removeItem('gemini_api_key');
-      setApiKey('');
-      setIsKeyEntered(false);
-      setPropertyData(null);
+    if (window.confirm("This will clear your AI provider settings and API Key. Your saved history will remain.")) {
+      localStorage.removeItem(AI_PROVIDER_STORAGE_KEY);
+      localStorage.removeItem(LEGACY_GEMINI_KEY_STORAGE_KEY);
+      setAiConfig({ ...aiConfig, apiKey: '' });
+      setIsProviderReady(false);
+      setScenarios([]);
       setSharedView(false);
+      resetMemo();
     }
   };
 
-  const saveToHistory = (prop: PropertyData, params: FinancialParams) => {
+  // A memo belongs to one property, so it goes when another analysis replaces it. A new
+  // analysis of the same address starts without one too, as the old memo quotes old figures.
+  const saveToHistory = (nextScenarios: Scenario[], nextActiveId: string, nextMemo: InvestmentMemo | null = memo ?? null) => {
+    const active = findActiveScenario({ scenarios: nextScenarios, activeScenarioId: nextActiveId });
+    if (!active) return;
+    const previous = history.find(h => h.address.toLowerCase() === active.property.address.toLowerCase());
     const newItem: SavedAnalysis = {
       id: Date.now().toString(),
       timestamp: Date.now(),
-      address: prop.address,
-      property: prop,
-      params: params
+      address: active.property.address,
+      scenarios: nextScenarios,
+      activeScenarioId: active.id,
+      // Re-saving an owned property keeps it in the portfolio
+      owned: previous?.owned,
+      exit: calculateExitAnalysis(active.property, active.params),
+      memo: nextMemo ?? undefined,
     };
 
-    const filteredHistory = history.filter(h => h.address.toLowerCase() !== prop.address.toLowerCase());
+    const filteredHistory = history.filter(h => h.address.toLowerCase() !== newItem.address.toLowerCase());
     const newHistory = [newItem, ...filteredHistory];
     
     setHistory(newHistory);
     localStorage.setItem('caprate_history', JSON.stringify(newHistory));
+    // The re-saved entry gets a new id, so a deal ticked for comparison follows it
+    if (previous && comparedIds.includes(previous.id)) {
+      setComparedIds(ids => ids.map(id => id === previous.id ? newItem.id : id));
+    }
+  };
+
+  // Patches the saved entry rather than re-saving the scenarios, which may have been edited
+  // while the memo was being written
+  const saveMemo = (next: InvestmentMemo | undefined, forAddress: string) => {
+    setMemo(next);
+    if (sharedView) return;
+    setHistory(prev => {
+      const newHistory = prev.map(h => h.address.toLowerCase() === forAddress.toLowerCase() ? { ...h, memo: next } : h);
+      localStorage.setItem('caprate_history', JSON.stringify(newHistory));
+      return newHistory;
+    });
+  };
+
+  const resetMemo = (next?: InvestmentMemo) => {
+    memoAbort.current?.abort();
+    memoAbort.current = null;
+    setMemo(next);
+    setMemoGenerating(false);
+    setMemoError(null);
+  };
+
+  const handleGenerateMemo = async () => {
+    if (!activeScenario) return;
+    const controller = new AbortController();
+    memoAbort.current?.abort();
+    memoAbort.current = controller;
+    setMemoGenerating(true);
+    setMemoError(null);
+    try {
+      const next = await generateMemo(createAIProvider(aiConfig), activeScenario, controller.signal);
+      if (memoAbort.current !== controller) return;
+      saveMemo(next, activeScenario.property.address);
+    } catch (err) {
+      if (memoAbort.current !== controller || isAbortError(err)) return;
+      const aiError = classifyError(err);
+      setMemoError(aiError.kind === 'PARSE_FAILURE'
+        ? "The AI's memo could not be read. Try again, or switch to a model that follows JSON instructions more reliably."
+        : AI_ERROR_MESSAGES[aiError.kind]);
+    } finally {
+      if (memoAbort.current === controller) {
+        memoAbort.current = null;
+        setMemoGenerating(false);
+      }
+    }
+  };
+
+  const handleCancelMemo = () => {
+    memoAbort.current?.abort();
+    memoAbort.current = null;
+    setMemoGenerating(false);
+  };
+
+  const toggleOwned = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    const newHistory = history.map(h => h.id === id ? { ...h, owned: !h.owned } : h);
+    setHistory(newHistory);
+    localStorage.setItem('caprate_history', JSON.stringify(newHistory));
+  };
+
+  const toggleCompared = (id: string) => {
+    const next = comparedIds.includes(id) ? comparedIds.filter(c => c !== id) : [...comparedIds, id];
+    setComparedIds(next);
+    if (next.length < 2) setShowDealComparison(false);
   };
 
   const deleteHistoryItem = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
+    if (comparedIds.includes(id)) toggleCompared(id);
     const newHistory = history.filter(h => h.id !== id);
     setHistory(newHistory);
     localStorage.setItem('caprate_history', JSON.stringify(newHistory));
   };
 
+  const updateScenarios = (nextScenarios: Scenario[], nextActiveId = activeScenarioId) => {
+    setScenarios(nextScenarios);
+    setActiveScenarioId(nextActiveId);
+    if (nextScenarios.length <= 1) setShowComparison(false);
+    if (!sharedView) saveToHistory(nextScenarios, nextActiveId);
+  };
+
+  const updateActiveScenario = (changes: Partial<Scenario>) => {
+    if (!activeScenario) return;
+    updateScenarios(scenarios.map(s => s.id === activeScenario.id ? { ...s, ...changes } : s));
+  };
+
   const loadFromHistory = (item: SavedAnalysis) => {
-    setPropertyData(item.property);
-    setFinancialParams(item.params);
+    setScenarios(item.scenarios);
+    setActiveScenarioId(item.activeScenarioId);
+    setShowComparison(false);
     setAddress(item.address);
     setError(null);
+    resetMemo(item.memo);
   };
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!address.trim()) return;
 
+    setError(null);
+    setFailure(null);
+    setCachedMatch(null);
+    const cached = await getCachedAnalysis(address, rentalStrategy, cacheTtlDays);
+    if (cached) {
+      setCachedMatch(cached);
+      return;
+    }
+    runAnalysis();
+  };
+
+  const handleUseCached = (cached: CachedAnalysis) => {
+    const base = createScenario(BASE_SCENARIO_NAME, cached.property, DEFAULT_PARAMS);
+    setCachedMatch(null);
+    setShowComparison(false);
+    setSharedView(false);
+    setScenarios([base]);
+    setActiveScenarioId(base.id);
+    resetMemo();
+    saveToHistory([base], base.id, null);
+  };
+
+  const runAnalysis = async () => {
+    setCachedMatch(null);
+    setFailure(null);
+    const controller = new AbortController();
+    analysisAbort.current?.abort(); // Any earlier run still streaming is discarded
+    analysisAbort.current = controller;
     setLoading(true);
+    setCompletedStages([]);
     setError(null);
-    setPropertyData(null);
+    setScenarios([]);
+    setShowComparison(false);
     setSharedView(false); // Reset shared view on new search
+    resetMemo();
+
+    // Partial results fill the base scenario as they stream in
+    let base: Scenario | null = null;
+    let completed: AnalysisStage[] = [];
+    const rawResponses: string[] = [];
 
     try {
-      const data = await analyzeProperty(address, apiKey);
-      setPropertyData(data);
-      saveToHistory(data, financialParams);
+      const data = await analyzeProperty(address, createAIProvider(aiConfig), rentalStrategy, {
+        signal: controller.signal,
+        onRawResponse: (text) => rawResponses.push(text),
+        onProgress: (progress) => {
+          if (analysisAbort.current !== controller) return;
+          completed = progress.completed;
+          setCompletedStages(progress.completed);
+          base = base ?? createScenario(BASE_SCENARIO_NAME, progress.property, DEFAULT_PARAMS);
+          setScenarios([{ ...base, property: progress.property }]);
+          setActiveScenarioId(base.id);
+        },
+      });
+      if (analysisAbort.current !== controller) return; // Discarded by New Search
+      // A cancelled analysis still resolves with what was gathered, flagged for review
+      const finished = base ? { ...base, property: data } : createScenario(BASE_SCENARIO_NAME, data, DEFAULT_PARAMS);
+      setScenarios([finished]);
+      setActiveScenarioId(finished.id);
+      saveToHistory([finished], finished.id, null);
+      // Partial results from a cancelled analysis are not worth reusing
+      if (!controller.signal.aborted && cacheTtlDays > 0) {
+        putCachedAnalysis({
+          address,
+          strategy: rentalStrategy,
+          provider: aiConfig.provider,
+          model: aiConfig.model,
+          rawResponses,
+          property: data,
+        });
+      }
     } catch (err) {
-      setError("We couldn't analyze that property. Please check the address, your API Key, or try again later.");
+      if (analysisAbort.current !== controller) return;
+      setScenarios([]);
+      if (controller.signal.aborted) {
+        setError("Analysis cancelled before any property data arrived.");
+      } else {
+        const aiError = classifyError(err);
+        // Say how far the analysis got so a stall partway through is distinguishable from a bad key
+        const stalled = stagesFor(rentalStrategy).find(stage => !completed.includes(stage.key));
+        const progressNote = completed.length > 0 && stalled ? ` The analysis stopped before "${stalled.label}".` : '';
+        setError(`${AI_ERROR_MESSAGES[aiError.kind]}${progressNote}`);
+        setFailure(aiError);
+      }
     } finally {
-      setLoading(false);
+      // A replaced run settling late must not unlock the run that replaced it
+      if (analysisAbort.current === controller) {
+        analysisAbort.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleCancelAnalysis = () => {
+    analysisAbort.current?.abort();
+  };
+
   const handleNewSearch = () => {
-    setPropertyData(null);
+    // Abandon any analysis still streaming in rather than keeping what it gathered
+    const running = analysisAbort.current;
+    analysisAbort.current = null;
+    running?.abort();
+    setLoading(false);
+    setScenarios([]);
+    setShowComparison(false);
     setAddress('');
     setError(null);
     setSharedView(false);
+    resetMemo();
     // Remove share param from URL without reloading
     window.history.pushState({}, document.title, window.location.pathname);
   };
@@ -218,45 +530,11 @@ function App() {
         const element = document.getElementById('dashboard-container');
         if (!element) throw new Error("Dashboard not found");
 
-        const html2canvas = (window as any).html2canvas;
-        const jspdf = (window as any).jspdf;
-
-        if (!html2canvas || !jspdf) {
-          throw new Error("PDF libraries not loaded. Please refresh.");
-        }
-
-        const canvas = await html2canvas(element, {
-          scale: 2, // High resolution
-          useCORS: true, // Allow external images if any
-          logging: false
-        });
-
-        const imgData = canvas.toDataURL('image/png');
-        const { jsPDF } = jspdf;
-        
-        // PDF Dimensions
-        const pdfWidth = 210; // A4 width in mm
-        const margin = 10;    // 10mm margin
-        const imgWidth = pdfWidth - (margin * 2);
-        
-        const imgProps = { width: canvas.width, height: canvas.height };
-        const imgHeight = (imgProps.height * imgWidth) / imgProps.width;
-        
-        // Height includes top/bottom margins
-        const pdfHeight = imgHeight + (margin * 2);
-
-        const doc = new jsPDF({
-          orientation: pdfHeight > pdfWidth ? 'p' : 'l',
-          unit: 'mm',
-          format: [pdfWidth, pdfHeight] // Custom format to accommodate length
-        });
-
-        // Add image with margin coordinates
-        doc.addImage(imgData, 'PNG', margin, margin, imgWidth, imgHeight);
-        
         // Clean filename
-        const filename = `Analysis_${propertyData.address.replace(/[^a-z0-9]/gi, '_').substring(0, 20)}.pdf`;
-        doc.save(filename);
+        const scenarioSuffix = exportedScenarios.length === 1 && scenarios.length > 1
+          ? `_${toFilenamePart(exportedScenarios[0].name)}`
+          : '';
+        await exportElementToPdf(element, `Analysis_${toFilenamePart(propertyData.address)}${scenarioSuffix}.pdf`);
 
       } catch (err) {
         console.error("PDF Generation failed", err);
@@ -271,15 +549,15 @@ function App() {
     if (!propertyData) return;
 
     // Create a LIGHTWEIGHT object for the URL to avoid length limits
-    // We strip out the comps array because it is heavy and causes broken links
-    const lightweightProperty = {
-      ...propertyData,
-      comps: [] // Exclude comps from shared URL to save space
-    };
+    // We strip out the comps array and search source links because they are heavy and cause broken links
+    const lightweightScenarios = exportedScenarios.map(scenario => ({
+      ...scenario,
+      property: { ...scenario.property, comps: [], groundingSources: undefined } // Exclude from shared URL to save space
+    }));
 
     const shareObj = {
-      property: lightweightProperty,
-      params: financialParams
+      scenarios: lightweightScenarios,
+      activeScenarioId: activeScenario?.id
     };
 
     const encoded = encodeURIComponent(JSON.stringify(shareObj));
@@ -307,10 +585,10 @@ function App() {
   };
 
   // ------------------------------------------------------------------
-  // RENDER: API Key Entry (Gatekeeper)
-  // Only show if we don't have a key AND we aren't viewing a shared link
+  // RENDER: AI Provider Setup (Gatekeeper)
+  // Only show if no provider is configured AND we aren't viewing a shared link
   // ------------------------------------------------------------------
-  if (!isKeyEntered && !sharedView) {
+  if (!isProviderReady && !sharedView) {
     return (
       <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center p-4">
         {showDeployModal && <DeployModal onClose={() => setShowDeployModal(false)} />}
@@ -329,21 +607,70 @@ function App() {
               <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-brand-600 to-brand-900">
                 CapRate AI
               </h1>
-              <p className="text-gray-500 mt-2 text-sm">Enter your Gemini API Key to access the tool.</p>
+              <p className="text-gray-500 mt-2 text-sm">Choose an AI provider to access the tool.</p>
            </div>
            
-           <form onSubmit={handleKeySubmit} className="space-y-4">
+           <form onSubmit={handleProviderSubmit} className="space-y-4">
               <div>
-                <label className="block text-xs font-bold text-gray-600 mb-1 uppercase">API Key</label>
-                <input 
-                  type="password" 
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="AIzaSy..."
+                <label className="block text-xs font-bold text-gray-600 mb-1 uppercase">Provider</label>
+                <select
+                  value={aiConfig.provider}
+                  onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
                   className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow bg-gray-50"
-                  required
-                />
+                >
+                  {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
               </div>
+              {aiConfig.provider !== 'FIXTURE' && (
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1 uppercase">Model</label>
+                  <input
+                    type="text"
+                    value={aiConfig.model}
+                    onChange={(e) => setAiConfig({ ...aiConfig, model: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow bg-gray-50"
+                    required
+                  />
+                </div>
+              )}
+              {findAIProvider(aiConfig.provider).needsBaseUrl && (
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1 uppercase">Base URL</label>
+                  <input
+                    type="url"
+                    value={aiConfig.baseUrl ?? ''}
+                    onChange={(e) => setAiConfig({ ...aiConfig, baseUrl: e.target.value })}
+                    placeholder="https://api.openai.com/v1"
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow bg-gray-50"
+                    required
+                  />
+                </div>
+              )}
+              {aiConfig.provider !== 'FIXTURE' && (
+                <div>
+                  <label className="block text-xs font-bold text-gray-600 mb-1 uppercase">
+                    API Key{!findAIProvider(aiConfig.provider).needsApiKey && ' (optional)'}
+                  </label>
+                  <input 
+                    type="password" 
+                    value={aiConfig.apiKey ?? ''}
+                    onChange={(e) => setAiConfig({ ...aiConfig, apiKey: e.target.value })}
+                    placeholder={aiConfig.provider === 'GEMINI' ? 'AIzaSy...' : 'sk-...'}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow bg-gray-50"
+                    required={findAIProvider(aiConfig.provider).needsApiKey}
+                  />
+                </div>
+              )}
+              {aiConfig.provider !== 'FIXTURE' && (
+                <label className="flex items-center gap-2 text-xs text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={!!aiConfig.recordResponses}
+                    onChange={(e) => setAiConfig({ ...aiConfig, recordResponses: e.target.checked })}
+                  />
+                  Record responses for offline replay
+                </label>
+              )}
               <button 
                 type="submit" 
                 className="w-full bg-brand-600 hover:bg-brand-700 text-white font-medium rounded-lg text-sm px-5 py-2.5 text-center transition-colors"
@@ -352,13 +679,15 @@ function App() {
               </button>
            </form>
            <p className="text-xs text-gray-400 mt-4 text-center">
-             Your key is stored locally in your browser and sent directly to Google. It is never saved to our servers.
+             Your settings are stored locally in your browser and your key is sent directly to the provider. It is never saved to our servers.
            </p>
+           {aiConfig.provider === 'GEMINI' && (
             <div className="mt-4 text-center">
              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-xs text-brand-600 hover:underline">
                Get a free Gemini API Key here
              </a>
-           </div>
+            </div>
+           )}
         </div>
       </div>
     );
@@ -395,6 +724,19 @@ function App() {
                   Deploy
                </button>
 
+               {/* Export Scope - only meaningful with several scenarios */}
+               {scenarios.length > 1 && (
+                 <select
+                   value={exportScope}
+                   onChange={(e) => setExportScope(e.target.value as 'ACTIVE' | 'ALL')}
+                   className="px-2 py-2 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                   title="Scenarios included when sharing or saving a PDF"
+                 >
+                   <option value="ACTIVE">This scenario</option>
+                   <option value="ALL">All scenarios</option>
+                 </select>
+               )}
+
                {/* Share Button */}
                <button 
                  onClick={handleShareResult}
@@ -454,30 +796,110 @@ function App() {
               </div>
            )}
 
+            {/* Streaming Analysis Progress */}
+            {loading && (
+              <div className="mb-6">
+                <AnalysisProgress strategy={rentalStrategy} completed={completedStages} onCancel={handleCancelAnalysis} />
+              </div>
+            )}
+
             {/* Read-only / Shared View Banner */}
             {sharedView && (
                <div className="bg-blue-50 border border-blue-200 p-3 mb-6 rounded text-center no-print">
                   <p className="text-sm text-blue-800">
                     You are viewing a <strong>shared analysis</strong>. 
-                    {!isKeyEntered && <span className="ml-1">To run your own search, please <button onClick={handleNewSearch} className="underline font-bold">enter an API Key</button>.</span>}
+                    {!isProviderReady && <span className="ml-1">To run your own search, please <button onClick={handleNewSearch} className="underline font-bold">choose an AI provider</button>.</span>}
                   </p>
                </div>
             )}
 
-            <div className="animate-fade-in-up">
-              <Dashboard 
-                property={propertyData} 
-                params={financialParams}
-                onPropertyChange={(p) => {
-                  setPropertyData(p);
-                  if (!sharedView) saveToHistory(p, financialParams); 
-                }}
-                onParamsChange={(p) => {
-                  setFinancialParams(p);
-                  if (!sharedView) saveToHistory(propertyData, p);
-                }}
-                isPdfGenerating={generatingPdf}
+            {/* Scenario edits would be overwritten by the next streamed update */}
+            {!generatingPdf && !loading && activeScenario && (
+              <ScenarioBar
+                scenarios={scenarios}
+                activeScenarioId={activeScenario.id}
+                onScenariosChange={updateScenarios}
+                showComparison={showComparison}
+                onToggleComparison={() => setShowComparison(!showComparison)}
               />
+            )}
+
+            {!generatingPdf && showComparison && (
+              <ScenarioComparison scenarios={scenarios} activeScenarioId={activeScenario?.id} />
+            )}
+
+            <div id="dashboard-container" className={`animate-fade-in-up ${generatingPdf ? 'bg-white w-[1000px]' : ''}`}>
+              {/* The PDF gets every exported scenario in full, then the comparison if there are several.
+                  The on-screen Dashboard keeps its key so its panels carry their sensitivity grid,
+                  simulation run and goal seek into the PDF and still have them afterwards. */}
+              {(generatingPdf ? exportedScenarios : [activeScenario]).map(scenario => scenario && (
+                scenario.id === activeScenario?.id ? (
+                  <Dashboard
+                    key="active"
+                    property={scenario.property}
+                    params={scenario.params}
+                    onPropertyChange={(p) => updateActiveScenario({ property: p })}
+                    onParamsChange={(p) => updateActiveScenario({ params: p })}
+                    lenderThresholds={lenderThresholds}
+                    onLenderThresholdsChange={handleLenderThresholdsChange}
+                    buyBoxes={buyBoxes}
+                    onBuyBoxesChange={handleBuyBoxesChange}
+                    scenarioName={scenarios.length > 1 ? scenario.name : undefined}
+                    readOnly={loading}
+                    isPdfGenerating={generatingPdf}
+                  />
+                ) : (
+                  <Dashboard
+                    key={scenario.id}
+                    property={scenario.property}
+                    params={scenario.params}
+                    onPropertyChange={() => {}}
+                    onParamsChange={() => {}}
+                    lenderThresholds={lenderThresholds}
+                    onLenderThresholdsChange={handleLenderThresholdsChange}
+                    buyBoxes={buyBoxes}
+                    onBuyBoxesChange={handleBuyBoxesChange}
+                    scenarioName={scenario.name}
+                    isPdfGenerating
+                  />
+                )
+              ))}
+              {generatingPdf && exportedScenarios.length > 1 && (
+                <div className="px-6 pb-6">
+                  <ScenarioComparison scenarios={exportedScenarios} isPdfMode />
+                </div>
+              )}
+              {/* Only with the scenario it was written from; a stale memo keeps its on-screen warning */}
+              {generatingPdf && memo && exportedScenarios.some(s => s.id === memo.scenarioId) && (
+                <div className="px-6 pb-6">
+                  <MemoPanel
+                    memo={memo}
+                    currentFacts={memoFacts}
+                    generating={false}
+                    error={null}
+                    canGenerate={false}
+                    onGenerate={() => {}}
+                    onCancel={() => {}}
+                    onChange={() => {}}
+                    isPdfMode
+                  />
+                </div>
+              )}
+              {!generatingPdf && (memo || isProviderReady) && (
+                <div className="max-w-7xl mx-auto px-4 pb-8 print:p-0 print:max-w-none">
+                  <MemoPanel
+                    memo={memo}
+                    currentFacts={memoFacts}
+                    activeScenarioName={scenarios.length > 1 ? activeScenario?.name : undefined}
+                    generating={memoGenerating}
+                    error={memoError}
+                    canGenerate={isProviderReady && !loading}
+                    onGenerate={handleGenerateMemo}
+                    onCancel={handleCancelMemo}
+                    onChange={(next) => propertyData && saveMemo(next, propertyData.address)}
+                  />
+                </div>
+              )}
             </div>
         </main>
       </div>
@@ -498,7 +920,7 @@ function App() {
             Deploy to GitHub
          </button>
         <button onClick={handleLogout} className="text-xs text-gray-300 hover:text-red-500 transition-colors">
-          Logout / Clear Key
+          {findAIProvider(aiConfig.provider).label} · {aiConfig.model} — Change AI provider
         </button>
       </div>
 
@@ -506,7 +928,7 @@ function App() {
         <h1 className="text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-brand-600 to-brand-900 cursor-default mb-4">
           CapRate AI
         </h1>
-        <p className="text-gray-500 text-lg">Instant rental yield analysis powered by Gemini.</p>
+        <p className="text-gray-500 text-lg">Instant rental yield analysis powered by AI.</p>
         
         {/* Share App Action */}
         <div className="mt-4 flex justify-center">
@@ -555,7 +977,7 @@ function App() {
               className="block w-full p-4 pl-10 text-sm text-gray-900 border border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-brand-500 focus:border-transparent focus:outline-none"
               placeholder="Enter property address (e.g. 123 Main St, Austin, TX)"
               value={address}
-              onChange={(e) => setAddress(e.target.value)}
+              onChange={(e) => { setAddress(e.target.value); setCachedMatch(null); }}
               disabled={loading}
             />
             <button
@@ -574,26 +996,154 @@ function App() {
               ) : "Calculate"}
             </button>
             </div>
+            <div className="mt-3 flex justify-center gap-2 text-xs">
+              {([['LONG_TERM', 'Long-term rental'], ['SHORT_TERM', 'Short-term rental (Airbnb)']] as [RentalStrategy, string][]).map(([strategy, label]) => (
+                <button
+                  key={strategy}
+                  type="button"
+                  onClick={() => { setRentalStrategy(strategy); setCachedMatch(null); }}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-full font-medium border transition-colors ${rentalStrategy === strategy ? 'bg-brand-50 border-brand-200 text-brand-700' : 'bg-white border-gray-200 text-gray-500 hover:text-gray-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+              <select
+                value={cacheTtlDays}
+                onChange={(e) => handleCacheTtlChange(Number(e.target.value))}
+                disabled={loading}
+                className="px-2 py-1.5 rounded-full font-medium border border-gray-200 bg-white text-gray-500 focus:outline-none focus:ring-1 focus:ring-brand-500"
+                title="How long a finished analysis is reused for the same address"
+              >
+                {CACHE_TTL_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>
+                    {option.days === 0 ? option.label : `Cache ${option.label}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {cachedMatch && !loading && (
+              <div className="mt-4 p-3 bg-brand-50 border border-brand-200 rounded-lg flex flex-wrap items-center justify-between gap-3 text-sm">
+                <p className="text-brand-800">
+                  This address was analyzed <strong>{formatDataAge(cachedMatch.cachedAt)}</strong>
+                  <span className="text-xs text-brand-600"> via {findAIProvider(cachedMatch.provider).label} · {cachedMatch.model}</span>
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleUseCached(cachedMatch)}
+                    className="px-3 py-1.5 text-xs font-medium text-white bg-brand-600 hover:bg-brand-700 rounded-lg transition-colors"
+                  >
+                    Use cached
+                  </button>
+                  <button
+                    type="button"
+                    onClick={runAnalysis}
+                    className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 rounded-lg transition-colors border border-gray-200"
+                  >
+                    Refresh
+                  </button>
+                </div>
+              </div>
+            )}
             {loading && (
-              <p className="mt-4 text-center text-sm text-gray-500 animate-pulse">Gathering comps from Zillow, StreetEasy & local records...</p>
+              <div className="mt-4 space-y-2">
+                <p className="text-center text-sm text-gray-500 animate-pulse">
+                  {rentalStrategy === 'SHORT_TERM'
+                    ? 'Gathering comps from Airbnb, VRBO & local records...'
+                    : 'Gathering comps from Zillow, StreetEasy & local records...'}
+                </p>
+                <AnalysisProgress strategy={rentalStrategy} completed={completedStages} onCancel={handleCancelAnalysis} />
+              </div>
             )}
         </form>
         
         {error && (
           <div className="mt-4 p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg flex items-start gap-3">
              <svg className="w-5 h-5 mt-0.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
-             <p>{error}</p>
+             <div className="min-w-0 flex-1">
+               <p>{error}</p>
+               {failure && (failure.kind === 'MISSING_KEY' || failure.kind === 'INVALID_KEY') && (
+                 <button onClick={() => setIsProviderReady(false)} className="mt-2 text-sm font-bold underline">
+                   Change AI provider
+                 </button>
+               )}
+               {failure?.rawResponse !== undefined && (
+                 <details className="mt-2 text-xs">
+                   <summary className="cursor-pointer font-medium">Show raw model response</summary>
+                   <pre className="mt-2 p-2 bg-white border border-red-100 rounded max-h-64 overflow-auto whitespace-pre-wrap break-words text-gray-700">
+                     {failure.rawResponse || '(empty)'}
+                   </pre>
+                 </details>
+               )}
+               {failure && (
+                 <p className="mt-1 text-xs text-red-500">Details: {failure.message}</p>
+               )}
+             </div>
           </div>
         )}
       </div>
 
+      {/* Portfolio Roll-up */}
+      {ownedHistory.length > 0 && (
+        <PortfolioDashboard analyses={ownedHistory} onOpen={loadFromHistory} />
+      )}
+
+      {/* Deal Comparison Matrix */}
+      {showDealComparison && comparedHistory.length >= 2 && (
+        <DealComparison
+          analyses={comparedHistory}
+          onOpen={loadFromHistory}
+          onClose={() => setShowDealComparison(false)}
+        />
+      )}
+
       {/* History List */}
       {history.length > 0 && (
         <div className="w-full max-w-3xl animate-fade-in-up">
-           <h3 className="text-gray-500 font-bold text-xs uppercase tracking-wider mb-4 border-b pb-2">Recent Analyses</h3>
+           <div className="flex justify-between items-center mb-4 border-b pb-2">
+             <h3 className="text-gray-500 font-bold text-xs uppercase tracking-wider">Recent Analyses</h3>
+             <div className="flex items-center gap-3 text-xs">
+               {buyBoxes.length > 0 && (
+                 <select
+                   value={criteriaFilter}
+                   onChange={(e) => setCriteriaFilter(e.target.value as 'ALL' | 'PASS' | 'FAIL')}
+                   className="px-2 py-1 text-gray-600 bg-white border border-gray-200 rounded-md focus:ring-2 focus:ring-brand-500 focus:outline-none"
+                   title="Filter by buy box criteria"
+                 >
+                   <option value="ALL">All deals</option>
+                   <option value="PASS">Meets criteria</option>
+                   <option value="FAIL">Misses criteria</option>
+                 </select>
+               )}
+               {comparedIds.length > 0 && (
+                 <>
+                 <button onClick={() => { setComparedIds([]); setShowDealComparison(false); }} className="text-gray-400 hover:text-gray-600">
+                   Clear
+                 </button>
+                 <button
+                   onClick={() => setShowDealComparison(true)}
+                   disabled={comparedIds.length < 2}
+                   className="px-3 py-1 font-medium text-white bg-brand-600 hover:bg-brand-700 rounded-md transition-colors disabled:opacity-50"
+                 >
+                   Compare {comparedIds.length} {comparedIds.length === 1 ? 'deal' : 'deals'}
+                 </button>
+                 </>
+               )}
+             </div>
+           </div>
+           {filteredHistory.length === 0 && (
+             <p className="text-sm text-gray-400 text-center py-6">No saved deals match this filter.</p>
+           )}
            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-             {history.map((item) => {
-               const metrics = calculateMetrics(item.property, item.params);
+             {filteredHistory.map((item) => {
+               const scenario = findActiveScenario(item);
+               const criteria = historyCriteria.get(item.id);
+               if (!scenario || !criteria) return null;
+               const { metrics } = criteria;
+               const reasons = criteria.meets
+                 ? []
+                 : criteria.results.flatMap(r => r.checks.filter(c => !c.passes).map(c => `${r.name}: ${c.reason}`));
                return (
                  <div 
                   key={item.id} 
@@ -601,19 +1151,47 @@ function App() {
                   className="bg-white p-4 rounded-lg border border-gray-100 shadow-sm hover:shadow-md transition-all cursor-pointer group relative"
                  >
                     <div className="flex justify-between items-start mb-2">
-                       <h4 className="font-bold text-gray-900 truncate pr-6">{item.address}</h4>
-                       <button 
-                        onClick={(e) => deleteHistoryItem(e, item.id)}
-                        className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors"
-                        title="Delete from history"
-                       >
-                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
-                       </button>
+                       <label className="flex items-center gap-2 min-w-0 pr-6" onClick={(e) => e.stopPropagation()}>
+                         <input
+                           type="checkbox"
+                           checked={comparedIds.includes(item.id)}
+                           onChange={() => toggleCompared(item.id)}
+                           title="Select for comparison"
+                         />
+                         <h4 className="font-bold text-gray-900 truncate">{item.address}</h4>
+                       </label>
+                       <div className="flex items-center gap-1 shrink-0">
+                         <button
+                          onClick={(e) => toggleOwned(e, item.id)}
+                          className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded-full border transition-colors ${item.owned ? 'bg-green-50 border-green-200 text-green-700' : 'border-gray-200 text-gray-400 hover:text-gray-600'}`}
+                          title={item.owned ? "Remove from portfolio" : "Mark as owned to include it in the portfolio"}
+                         >
+                           {item.owned ? 'Owned' : 'Mark Owned'}
+                         </button>
+                         <button 
+                          onClick={(e) => deleteHistoryItem(e, item.id)}
+                          className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors"
+                          title="Delete from history"
+                         >
+                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                         </button>
+                       </div>
                     </div>
                     <div className="flex justify-between items-end">
                        <div>
-                         <div className="text-xs text-gray-500">List: {formatCurrency(item.property.listPrice)}</div>
-                         <div className="text-xs text-gray-500">Units: {item.property.numUnits}</div>
+                         <div className="text-xs text-gray-500">List: {formatCurrency(scenario.property.listPrice)}</div>
+                         <div className="text-xs text-gray-500">Units: {scenario.property.numUnits}</div>
+                         {item.scenarios.length > 1 && (
+                           <div className="text-xs text-gray-400">{item.scenarios.length} scenarios</div>
+                         )}
+                         {buyBoxes.length > 0 && criteria && (
+                           <div
+                             className={`mt-1 inline-block px-2 py-0.5 text-[10px] font-bold rounded-full ${criteria.meets ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+                             title={reasons.join('\n')}
+                           >
+                             {criteria.meets ? '✓ Meets criteria' : `✗ ${reasons[0] ?? 'Misses criteria'}`}
+                           </div>
+                         )}
                        </div>
                        <div className="text-right">
                           <div className="text-sm font-bold text-brand-600">{metrics.capRate.toFixed(2)}% Cap</div>
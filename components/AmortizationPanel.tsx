@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { PropertyData, FinancialParams, OneTimePrepayment } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { buildLoanSchedule } from '../utils/amortization';
+import {
+  AreaChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  Legend,
+} from 'recharts';
+
+interface AmortizationPanelProps {
+  property: PropertyData;
+  params: FinancialParams;
+  onParamsChange: (p: FinancialParams) => void;
+  isPdfMode?: boolean;
+}
+
+// Payments are assumed to start the month after closing
+const formatPayoffDate = (months: number) => {
+  const date = new Date();
+  date.setMonth(date.getMonth() + months);
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
+
+const formatDuration = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rem = months % 12;
+  return rem > 0 ? `${years}y ${rem}m` : `${years}y`;
+};
+
+export const AmortizationPanel: React.FC<AmortizationPanelProps> = ({
+  property,
+  params,
+  onParamsChange,
+  isPdfMode = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showMonthly, setShowMonthly] = useState(false);
+
+  const schedule = useMemo(() => buildLoanSchedule(property, params), [property, params]);
+  const hasPrepayments =
+    (params.extraPrincipalMonthly || 0) > 0 || (params.oneTimePrepayments || []).length > 0;
+  // Same loan without prepayments, to show what they save
+  const baseline = useMemo(
+    () => buildLoanSchedule(property, { ...params, extraPrincipalMonthly: 0, oneTimePrepayments: [] }),
+    [property, params]
+  );
+
+  const oneTimePrepayments = params.oneTimePrepayments || [];
+  const interestSaved = baseline.totalInterest - schedule.totalInterest;
+  const monthsSaved = baseline.payoffMonth - schedule.payoffMonth;
+
+  const totalPmi = schedule.annual.reduce((sum, row) => sum + row.pmi, 0);
+  const lastPmiMonth = schedule.payments.filter(p => p.pmi > 0).length;
+
+  const chartData = baseline.annual.map((row) => ({
+    year: row.year,
+    balance: schedule.annual[row.year - 1]?.endingBalance ?? 0,
+    baselineBalance: row.endingBalance,
+  }));
+
+  const updatePrepayments = (next: OneTimePrepayment[]) => {
+    onParamsChange({ ...params, oneTimePrepayments: next });
+  };
+
+  const handlePrepaymentChange = (index: number, key: keyof OneTimePrepayment, value: number) => {
+    const next = [...oneTimePrepayments];
+    next[index] = { ...next[index], [key]: value };
+    updatePrepayments(next);
+  };
+
+  const inputClass = `
+    w-full px-3 py-2 border border-blue-200 rounded-lg
+    focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow
+    bg-blue-50 text-gray-900 font-medium
+    print:hidden
+  `;
+  const labelClass = 'block text-xs font-bold text-gray-600 mb-1 uppercase tracking-wide print:text-gray-500 print:mb-0';
+  const cellClass = 'px-3 py-2 text-right whitespace-nowrap print:px-1 print:py-0.5';
+  const expanded = isOpen || isPdfMode;
+
+  if (schedule.loanAmount <= 0) return null;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-800 print:text-base">
+          Loan Amortization{params.secondLoan ? ' (First Loan)' : ''}
+        </h3>
+        {!isPdfMode && (
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-sm font-medium text-brand-600 hover:text-brand-800 flex items-center gap-1 print:hidden"
+          >
+            {isOpen ? 'Hide Schedule' : 'Show Schedule'}
+            <svg className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+          </button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm print:gap-2 print:mt-2">
+        <div>
+          <div className="text-xs text-gray-500 uppercase">Loan Amount</div>
+          <div className="font-bold text-gray-900">{formatCurrency(schedule.loanAmount)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 uppercase">First Payment (P&amp;I)</div>
+          <div className="font-bold text-gray-900">{formatCurrency(schedule.scheduledPayment)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 uppercase">Total Interest</div>
+          <div className="font-bold text-gray-900">{formatCurrency(schedule.totalInterest)}</div>
+          {hasPrepayments && interestSaved > 0 && (
+            <div className="text-xs text-green-600">Saves {formatCurrency(interestSaved)}</div>
+          )}
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 uppercase">Payoff</div>
+          <div className="font-bold text-gray-900">{formatPayoffDate(schedule.payoffMonth)}</div>
+          <div className="text-xs text-gray-500">
+            {formatDuration(schedule.payoffMonth)}
+            {hasPrepayments && monthsSaved > 0 && (
+              <span className="text-green-600"> ({formatDuration(monthsSaved)} early)</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {(schedule.balloonPayment > 0 || totalPmi > 0) && (
+        <div className="mt-3 text-xs text-amber-700 space-y-1">
+          {schedule.balloonPayment > 0 && (
+            <p>Balloon payment of {formatCurrency(schedule.balloonPayment)} due {formatPayoffDate(schedule.payoffMonth)}.</p>
+          )}
+          {totalPmi > 0 && (
+            <p>PMI totals {formatCurrency(totalPmi)} and drops off after payment {lastPmiMonth}.</p>
+          )}
+        </div>
+      )}
+
+      {expanded && (
+        <div className="mt-6 space-y-6 print:mt-3 print:space-y-3">
+          {/* Prepayments */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Extra Principal / Month ($)</label>
+              {isPdfMode ? (
+                <span className="font-bold text-black">{params.extraPrincipalMonthly || 0}</span>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  step="50"
+                  value={params.extraPrincipalMonthly || 0}
+                  onChange={(e) => onParamsChange({ ...params, extraPrincipalMonthly: parseFloat(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              )}
+            </div>
+            <div>
+              <label className={labelClass}>One-Time Prepayments</label>
+              <div className="space-y-2">
+                {oneTimePrepayments.map((p, idx) => (
+                  isPdfMode ? (
+                    <div key={idx} className="text-sm text-black">
+                      {formatCurrency(p.amount)} with payment {p.month}
+                    </div>
+                  ) : (
+                    <div key={idx} className="flex gap-2 items-center">
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={p.month}
+                        onChange={(e) => handlePrepaymentChange(idx, 'month', Math.max(1, parseInt(e.target.value) || 1))}
+                        className={inputClass}
+                        title="Payment number"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="1000"
+                        value={p.amount}
+                        onChange={(e) => handlePrepaymentChange(idx, 'amount', parseFloat(e.target.value) || 0)}
+                        className={inputClass}
+                        title="Amount ($)"
+                      />
+                      <button
+                        onClick={() => updatePrepayments(oneTimePrepayments.filter((_, i) => i !== idx))}
+                        className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors"
+                        title="Remove prepayment"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                      </button>
+                    </div>
+                  )
+                ))}
+                {!isPdfMode && (
+                  <button
+                    onClick={() => updatePrepayments([...oneTimePrepayments, { month: 12, amount: 10000 }])}
+                    className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+                  >
+                    + Add prepayment (payment #, amount)
+                  </button>
+                )}
+                {isPdfMode && oneTimePrepayments.length === 0 && (
+                  <div className="text-sm text-gray-400">None</div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Balance Chart */}
+          <div className="w-full h-64 print:h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="year" tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={(v: number) => `$${Math.round(v / 1000)}k`} tick={{ fontSize: 11 }} width={60} />
+                <RechartsTooltip
+                  formatter={(value: number) => formatCurrency(value)}
+                  labelFormatter={(label) => `End of Year ${label}`}
+                />
+                <Legend wrapperStyle={{ fontSize: '10px' }} />
+                <Area type="monotone" dataKey="balance" name="Loan Balance" stroke="#0284c7" fill="#e0f2fe" />
+                {hasPrepayments && (
+                  <Line type="monotone" dataKey="baselineBalance" name="Without Prepayment" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+                )}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Schedule Table */}
+          <div>
+            {!isPdfMode && (
+              <div className="flex justify-end mb-2 print:hidden">
+                <button
+                  onClick={() => setShowMonthly(!showMonthly)}
+                  className="text-xs font-medium text-brand-600 hover:text-brand-800"
+                >
+                  {showMonthly ? 'Show annual totals' : 'Show every payment'}
+                </button>
+              </div>
+            )}
+            <div className={`overflow-x-auto ${showMonthly && !isPdfMode ? 'max-h-96 overflow-y-auto' : ''} print:overflow-visible print:max-h-none`}>
+              <table className="w-full text-sm text-gray-500 print:text-xs">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50 print:bg-gray-100 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left print:px-1 print:py-0.5">{showMonthly && !isPdfMode ? 'Payment' : 'Year'}</th>
+                    <th className={cellClass}>Paid</th>
+                    <th className={cellClass}>Interest</th>
+                    <th className={cellClass}>Principal</th>
+                    <th className={cellClass}>Cum. Interest</th>
+                    <th className={cellClass}>Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {showMonthly && !isPdfMode
+                    ? schedule.payments.map((p) => (
+                        <tr key={p.month} className="border-b hover:bg-gray-50">
+                          <td className="px-3 py-2 font-medium text-gray-900">{p.month}</td>
+                          <td className={cellClass}>{formatCurrency(p.payment)}</td>
+                          <td className={cellClass}>{formatCurrency(p.interest)}</td>
+                          <td className={cellClass}>{formatCurrency(p.principal + p.extraPrincipal)}</td>
+                          <td className={cellClass}>{formatCurrency(p.cumulativeInterest)}</td>
+                          <td className={`${cellClass} text-gray-900`}>{formatCurrency(p.balance)}</td>
+                        </tr>
+                      ))
+                    : schedule.annual.map((row) => (
+                        <tr key={row.year} className="border-b hover:bg-gray-50">
+                          <td className="px-3 py-2 font-medium text-gray-900 print:px-1 print:py-0.5">{row.year}</td>
+                          <td className={cellClass}>{formatCurrency(row.payments)}</td>
+                          <td className={cellClass}>{formatCurrency(row.interest)}</td>
+                          <td className={cellClass}>{formatCurrency(row.principal)}</td>
+                          <td className={cellClass}>{formatCurrency(row.cumulativeInterest)}</td>
+                          <td className={`${cellClass} text-gray-900`}>{formatCurrency(row.endingBalance)}</td>
+                        </tr>
+                      ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
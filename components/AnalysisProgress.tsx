@@ -0,0 +1,41 @@
+import React from 'react';
+import { AnalysisStage, RentalStrategy } from '../types';
+import { stagesFor } from '../services/analysisService';
+
+interface AnalysisProgressProps {
+  strategy: RentalStrategy;
+  completed: AnalysisStage[];
+  onCancel: () => void;
+}
+
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ strategy, completed, onCancel }) => {
+  const stages = stagesFor(strategy);
+  // The first stage not yet done is the one being worked on
+  const current = stages.find(stage => !completed.includes(stage.key));
+
+  return (
+    <div className="p-3 bg-white border border-brand-100 rounded-lg shadow-sm flex flex-wrap items-center justify-between gap-3 no-print">
+      <ol className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {stages.map(stage => {
+          const done = completed.includes(stage.key);
+          return (
+            <li
+              key={stage.key}
+              className={`flex items-center gap-1 ${done ? 'text-green-700 font-medium' : stage === current ? 'text-brand-700 animate-pulse' : 'text-gray-400'}`}
+            >
+              <span>{done ? '✓' : stage === current ? '…' : '○'}</span>
+              {stage.label}
+            </li>
+          );
+        })}
+      </ol>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-3 py-1 text-xs font-medium text-gray-600 bg-white hover:bg-red-50 hover:text-red-700 rounded-lg transition-colors border border-gray-200"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { PropertyData, FinancialParams, BuyBox } from '../types';
+import { BUY_BOX_FIELDS, createBuyBox, evaluateBuyBoxes } from '../utils/buyBox';
+
+interface BuyBoxPanelProps {
+  property: PropertyData;
+  params: FinancialParams;
+  buyBoxes: BuyBox[];
+  onBuyBoxesChange: (boxes: BuyBox[]) => void;
+  isPdfMode?: boolean;
+}
+
+const UNIT_LABELS = { '%': '%', '$': '$', units: 'units', pts: '+pts' };
+
+export const BuyBoxPanel: React.FC<BuyBoxPanelProps> = ({
+  property,
+  params,
+  buyBoxes,
+  onBuyBoxesChange,
+  isPdfMode = false,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const results = useMemo(() => evaluateBuyBoxes(property, params, buyBoxes), [property, params, buyBoxes]);
+  const passing = results.filter(r => r.passes);
+
+  const handleBoxChange = (id: string, changes: Partial<BuyBox>) => {
+    onBuyBoxesChange(buyBoxes.map(box => box.id === id ? { ...box, ...changes } : box));
+  };
+
+  const inputClass = `
+    w-full px-3 py-2 border border-blue-200 rounded-lg
+    focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow
+    bg-blue-50 text-gray-900 font-medium text-sm
+  `;
+
+  if (buyBoxes.length === 0 && isPdfMode) return null;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <div className="flex justify-between items-center mb-4 print:mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 print:text-base">Buy Box</h3>
+        <div className="flex items-center gap-3">
+          {results.length > 0 && (
+            <span className={`px-3 py-1 text-xs rounded-full font-medium ${passing.length > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+              {passing.length > 0 ? 'Meets criteria' : 'Does not meet criteria'}
+            </span>
+          )}
+          {!isPdfMode && (
+            <button
+              onClick={() => setEditing(!editing)}
+              className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+            >
+              {editing ? 'Done' : 'Criteria'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editing && !isPdfMode && (
+        <div className="space-y-3 mb-4 print:hidden">
+          {buyBoxes.map(box => (
+            <div key={box.id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex gap-2 items-center mb-2">
+                <input
+                  type="text"
+                  value={box.name}
+                  onChange={(e) => handleBoxChange(box.id, { name: e.target.value })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => onBuyBoxesChange(buyBoxes.filter(b => b.id !== box.id))}
+                  className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors"
+                  title="Remove buy box"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {BUY_BOX_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-[10px] font-bold text-gray-600 mb-1 uppercase tracking-wide">
+                      {field.direction === 'min' ? 'Min' : 'Max'} {field.label} ({UNIT_LABELS[field.unit]})
+                    </label>
+                    <input
+                      type="number"
+                      step={field.unit === '$' ? '5000' : field.unit === 'units' ? '1' : '0.25'}
+                      value={box[field.key] ?? ''}
+                      placeholder="Off"
+                      onChange={(e) => handleBoxChange(box.id, {
+                        [field.key]: e.target.value === '' ? null : parseFloat(e.target.value) || 0,
+                      })}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => onBuyBoxesChange([...buyBoxes, createBuyBox({ name: `Buy Box ${buyBoxes.length + 1}` })])}
+            className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+          >
+            + Add buy box
+          </button>
+        </div>
+      )}
+
+      {results.length === 0 ? (
+        <p className="text-sm text-gray-400">No acquisition criteria set.</p>
+      ) : (
+        <div className="space-y-3 print:space-y-1">
+          {results.map(result => {
+            const failures = result.checks.filter(c => !c.passes);
+            return (
+              <div
+                key={result.buyBoxId}
+                className={`p-3 rounded-lg border ${result.passes ? 'border-green-200 bg-green-50/50' : 'border-red-200 bg-red-50/50'}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-semibold text-gray-800">{result.name}</span>
+                  <span className={`text-xs font-bold ${result.passes ? 'text-green-700' : 'text-red-700'}`}>
+                    {result.passes ? '✓ Pass' : '✗ Fail'}
+                  </span>
+                </div>
+                {result.passes ? (
+                  <p className="text-xs text-green-700 mt-1">
+                    {result.checks.length === 0 ? 'No criteria checked.' : `All ${result.checks.length} criteria met.`}
+                  </p>
+                ) : (
+                  <ul className="text-xs text-red-700 mt-1 space-y-0.5">
+                    {failures.map(check => <li key={check.key}>✗ {check.reason}</li>)}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
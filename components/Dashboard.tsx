@@ -1,16 +1,42 @@
 import React, { useMemo } from 'react';
-import { PropertyData, FinancialParams } from '../types';
-import { calculateMetrics, formatCurrency, formatPercent } from '../utils/calculations';
+import { PropertyData, FinancialParams, LenderThresholds, CompListing, BuyBox } from '../types';
+import { calculateMetrics, calculateExpenseBase, formatCurrency, formatPercent } from '../utils/calculations';
+import { expensesByCategory } from '../utils/expenses';
+import { calculateExitAnalysis } from '../utils/returns';
+import { calculateTaxAnalysis } from '../utils/taxes';
+import { shortTermRentalForYear } from '../utils/shortTermRental';
+import { formatDataAge } from '../services/analysisCache';
 import { MetricCard } from './MetricCard';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
 import { FinancialInputs } from './FinancialInputs';
+import { ProjectionPanel } from './ProjectionPanel';
+import { AmortizationPanel } from './AmortizationPanel';
+import { SensitivityPanel } from './SensitivityPanel';
+import { SimulationPanel } from './SimulationPanel';
+import { GoalSeekPanel } from './GoalSeekPanel';
+import { UnderwritingPanel } from './UnderwritingPanel';
+import { BuyBoxPanel } from './BuyBoxPanel';
+import { ValueAddPanel } from './ValueAddPanel';
+import { SourcesPanel } from './SourcesPanel';
+
+const COMP_PRICE_SUFFIX: Record<CompListing['type'], string> = {
+  RENT: '/mo',
+  SALE: '',
+  STR: '/night',
+};
 
 interface DashboardProps {
   property: PropertyData;
   params: FinancialParams;
   onPropertyChange: (p: PropertyData) => void;
   onParamsChange: (p: FinancialParams) => void;
+  lenderThresholds: LenderThresholds;
+  onLenderThresholdsChange: (t: LenderThresholds) => void;
+  buyBoxes: BuyBox[];
+  onBuyBoxesChange: (boxes: BuyBox[]) => void;
+  scenarioName?: string; // Shown when the property has several scenarios
   isPdfGenerating?: boolean;
+  readOnly?: boolean; // Locks every input, e.g. while the analysis is still streaming in
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ 
@@ -18,24 +44,37 @@ export const Dashboard: React.FC<DashboardProps> = ({
   params, 
   onPropertyChange, 
   onParamsChange,
-  isPdfGenerating = false
+  lenderThresholds,
+  onLenderThresholdsChange,
+  buyBoxes,
+  onBuyBoxesChange,
+  scenarioName,
+  isPdfGenerating = false,
+  readOnly = false
 }) => {
   const metrics = useMemo(() => calculateMetrics(property, params), [property, params]);
+  const exit = useMemo(() => calculateExitAnalysis(property, params), [property, params]);
+  const tax = useMemo(() => calculateTaxAnalysis(property, params), [property, params]);
 
   const expenseData = [
-    { name: 'Taxes', value: property.propertyTaxAnnual, color: '#94a3b8' },
-    { name: 'Insurance', value: property.insuranceAnnual, color: '#cbd5e1' },
-    { name: 'HOA', value: property.hoaMonthly * 12, color: '#e2e8f0' },
-    { name: 'Maintenance', value: metrics.effectiveGrossIncome * (property.maintenanceRate / 100), color: '#64748b' },
+    ...expensesByCategory(property.expenses || [], calculateExpenseBase(property, params.rentBasis)),
+    ...(property.shortTermRental
+      ? [{
+          name: 'Nightly Rental Costs',
+          value: shortTermRentalForYear(property.shortTermRental, property.numUnits).operatingExpenses,
+          color: '#f97316',
+        }]
+      : []),
     { name: 'Mortgage', value: metrics.annualDebtService, color: '#0ea5e9' },
   ];
 
   const comps = property.comps || [];
 
+  // A disabled fieldset disables every form control inside it
   return (
-    <div 
-      id="dashboard-container"
-      className={`max-w-7xl mx-auto px-4 py-8 print:p-0 print:max-w-none ${isPdfGenerating ? 'bg-white p-6 max-w-none w-[1000px]' : ''}`}
+    <fieldset
+      disabled={readOnly}
+      className={`min-w-0 max-w-7xl mx-auto px-4 py-8 print:p-0 print:max-w-none ${isPdfGenerating ? 'bg-white p-6 max-w-none w-[1000px]' : ''}`}
     >
       <div className="mb-8 print:mb-4">
         <h1 className="text-3xl font-bold text-gray-900 print:text-2xl">{property.address}</h1>
@@ -48,6 +87,25 @@ export const Dashboard: React.FC<DashboardProps> = ({
             <span className="px-3 py-1 bg-green-100 text-green-800 text-xs rounded-full font-medium print:bg-transparent print:p-0 print:text-green-700">
              Est. List: {formatCurrency(property.listPrice)}
            </span>
+           {property.analyzedAt && (
+             <>
+               <span className={`print:hidden text-gray-300 ${isPdfGenerating ? 'hidden' : ''}`}>•</span>
+               <span
+                 className="px-3 py-1 bg-gray-100 text-gray-600 text-xs rounded-full font-medium print:bg-transparent print:p-0"
+                 title={new Date(property.analyzedAt).toLocaleString()}
+               >
+                 Data from {new Date(property.analyzedAt).toLocaleDateString()} ({formatDataAge(property.analyzedAt)})
+               </span>
+             </>
+           )}
+           {scenarioName && (
+             <>
+               <span className={`print:hidden text-gray-300 ${isPdfGenerating ? 'hidden' : ''}`}>•</span>
+               <span className="px-3 py-1 bg-brand-50 text-brand-700 text-xs rounded-full font-medium print:bg-transparent print:p-0">
+                 Scenario: {scenarioName}
+               </span>
+             </>
+           )}
         </div>
       </div>
 
@@ -93,6 +151,62 @@ export const Dashboard: React.FC<DashboardProps> = ({
             />
           </div>
 
+          {/* Hold Period Returns */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 print:grid-cols-2 print:gap-2">
+            <MetricCard 
+              label="Levered IRR" 
+              value={exit.leveredIrr !== null ? formatPercent(exit.leveredIrr) : 'N/A'}
+              subValue={`${exit.holdPeriodYears}-year hold`}
+              tooltip="Annualized return on your cash invested, including cash flow, loan paydown and net sale proceeds."
+              trend={exit.leveredIrr !== null && exit.leveredIrr > 0 ? 'positive' : 'negative'}
+            />
+            <MetricCard 
+              label="Unlevered IRR" 
+              value={exit.unleveredIrr !== null ? formatPercent(exit.unleveredIrr) : 'N/A'}
+              tooltip="Annualized return if the property were bought all cash, from NOI and the sale after selling costs."
+            />
+            <MetricCard 
+              label="NPV" 
+              value={formatCurrency(exit.npv)}
+              subValue="Levered, at discount rate"
+              tooltip="Present value of all levered cash flows including the sale, minus the cash invested. Positive means the deal beats your discount rate."
+              trend={exit.npv >= 0 ? 'positive' : 'negative'}
+            />
+            <MetricCard 
+              label="Equity Multiple" 
+              value={`${exit.equityMultiple.toFixed(2)}x`}
+              subValue={`Net sale proceeds ${formatCurrency(exit.netSaleProceeds)}`}
+              tooltip="Total cash returned over the hold (cash flow plus net sale proceeds) divided by total cash invested."
+            />
+          </div>
+
+          {/* Acquisition Criteria */}
+          <BuyBoxPanel
+            property={property}
+            params={params}
+            buyBoxes={buyBoxes}
+            onBuyBoxesChange={onBuyBoxesChange}
+            isPdfMode={isPdfGenerating}
+          />
+
+          {/* Value-Add / BRRRR */}
+          {params.valueAdd && (
+            <ValueAddPanel
+              property={property}
+              params={params}
+              plan={params.valueAdd}
+              isPdfMode={isPdfGenerating}
+            />
+          )}
+
+          {/* Lender Underwriting */}
+          <UnderwritingPanel
+            metrics={metrics}
+            thresholds={lenderThresholds}
+            onThresholdsChange={onLenderThresholdsChange}
+            isPdfMode={isPdfGenerating}
+          />
+
           {/* Breakdown & Charts */}
           <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfGenerating ? 'shadow-none border p-4' : ''}`}>
              <h3 className="text-lg font-semibold text-gray-800 mb-4 print:text-base print:mb-2">Annual Expense Breakdown</h3>
@@ -117,6 +231,18 @@ export const Dashboard: React.FC<DashboardProps> = ({
                    </ResponsiveContainer>
                 </div>
                 <div className="w-full md:w-1/2 mt-4 md:mt-0 md:pl-8 space-y-3 print:space-y-1 print:w-1/2 print:text-sm">
+                   {metrics.otherIncome > 0 && (
+                     <>
+                       <div className="flex justify-between border-b pb-2 print:pb-1 text-sm">
+                          <span className="text-gray-500 pl-3">Rental Income</span>
+                          <span className="text-gray-700">{formatCurrency(metrics.grossRentalIncome)}</span>
+                       </div>
+                       <div className="flex justify-between border-b pb-2 print:pb-1 text-sm">
+                          <span className="text-gray-500 pl-3">Other Income</span>
+                          <span className="text-gray-700">{formatCurrency(metrics.otherIncome)}</span>
+                       </div>
+                     </>
+                   )}
                    <div className="flex justify-between border-b pb-2 print:pb-1">
                       <span className="text-gray-600">Gross Income</span>
                       <span className="font-medium text-green-600">{formatCurrency(metrics.grossAnnualIncome)}</span>
@@ -139,16 +265,83 @@ export const Dashboard: React.FC<DashboardProps> = ({
                         {formatCurrency(metrics.annualCashFlow)}
                       </span>
                    </div>
+
+                   {/* After-Tax */}
+                   <div className="flex justify-between border-b pb-2 pt-2 print:pb-1 text-sm">
+                      <span className="text-gray-500">Depreciation</span>
+                      <span className="text-gray-700">-{formatCurrency(tax.totalDepreciation)}</span>
+                   </div>
+                   <div className="flex justify-between border-b pb-2 print:pb-1 text-sm">
+                      <span className="text-gray-500">Taxable Income</span>
+                      <span className="text-gray-700">{formatCurrency(tax.taxableIncome)}</span>
+                   </div>
+                   <div className="flex justify-between border-b pb-2 print:pb-1 text-sm">
+                      <span className="text-gray-500">{tax.incomeTax <= 0 ? 'Tax Savings' : 'Income Tax'}</span>
+                      <span className={tax.incomeTax <= 0 ? 'text-green-600' : 'text-red-400'}>
+                        {tax.incomeTax <= 0 ? formatCurrency(-tax.incomeTax) : `-${formatCurrency(tax.incomeTax)}`}
+                      </span>
+                   </div>
+                   <div className="flex justify-between border-b pb-2 print:pb-1">
+                      <span className="font-bold text-gray-900">After-Tax Cash Flow</span>
+                      <span className={`font-bold ${tax.afterTaxCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(tax.afterTaxCashFlow)}
+                      </span>
+                   </div>
+                   <div className="flex justify-between">
+                      <span className="font-bold text-gray-900">After-Tax Cash on Cash</span>
+                      <span className={`font-bold ${tax.afterTaxCashOnCash >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatPercent(tax.afterTaxCashOnCash)}
+                      </span>
+                   </div>
                 </div>
              </div>
           </div>
 
+          {/* Reverse Solver */}
+          <GoalSeekPanel
+            property={property}
+            params={params}
+            onPropertyChange={onPropertyChange}
+            onParamsChange={onParamsChange}
+            isPdfMode={isPdfGenerating}
+          />
+
+          {/* Sensitivity Grid */}
+          <SensitivityPanel
+            property={property}
+            params={params}
+            isPdfMode={isPdfGenerating}
+          />
+
+          {/* Monte Carlo Risk */}
+          <SimulationPanel
+            property={property}
+            params={params}
+            isPdfMode={isPdfGenerating}
+          />
+
+          {/* Multi-Year Projection */}
+          <ProjectionPanel
+            property={property}
+            params={params}
+            onParamsChange={onParamsChange}
+            isPdfMode={isPdfGenerating}
+          />
+
+          {/* Loan Amortization */}
+          <AmortizationPanel
+            property={property}
+            params={params}
+            onParamsChange={onParamsChange}
+            isPdfMode={isPdfGenerating}
+          />
+
           {/* Comparable Listings */}
           {comps.length > 0 && (
              <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfGenerating ? 'shadow-none border p-4' : ''}`}>
                 <div className="flex justify-between items-center mb-4 print:mb-2">
                   <h3 className="text-lg font-semibold text-gray-800 print:text-base">Rental Comps Sourced</h3>
-                  <span className="text-xs text-gray-400 print:text-gray-500">Data simulated via Gemini Search</span>
+                  <span className="text-xs text-gray-400 print:text-gray-500">Data simulated via AI web search</span>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm text-left text-gray-500 print:text-xs">
@@ -164,7 +357,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                       {comps.map((comp, idx) => (
                         <tr key={idx} className="border-b hover:bg-gray-50">
                           <td className="px-4 py-3 font-medium text-gray-900 print:px-2 print:py-1">{comp.address}</td>
-                          <td className="px-4 py-3 print:px-2 print:py-1">{formatCurrency(comp.price)}/mo</td>
+                          <td className="px-4 py-3 print:px-2 print:py-1">{formatCurrency(comp.price)}{COMP_PRICE_SUFFIX[comp.type] ?? ''}</td>
                           <td className="px-4 py-3 print:px-2 print:py-1">{comp.bedrooms}bd, {comp.bathrooms}ba</td>
                           <td className="px-4 py-3 print:px-2 print:py-1">
                              <span className="px-2 py-1 bg-gray-100 rounded text-xs print:bg-transparent print:p-0">
@@ -179,8 +372,11 @@ export const Dashboard: React.FC<DashboardProps> = ({
              </div>
           )}
 
+          {/* Data Sources Appendix */}
+          <SourcesPanel property={property} isPdfMode={isPdfGenerating} />
+
         </div>
       </div>
-    </div>
+    </fieldset>
   );
 };
\ No newline at end of file
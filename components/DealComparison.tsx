@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { SavedAnalysis } from '../types';
+import { compareDeals, dealComparisonToCsv } from '../utils/dealComparison';
+import { downloadFile, exportElementToPdf } from '../utils/export';
+import { formatComparisonValue } from '../utils/scenarios';
+
+interface DealComparisonProps {
+  analyses: SavedAnalysis[];
+  onOpen: (analysis: SavedAnalysis) => void;
+  onClose: () => void;
+}
+
+export const DealComparison: React.FC<DealComparisonProps> = ({ analyses, onOpen, onClose }) => {
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+  const comparison = useMemo(() => compareDeals(analyses), [analyses]);
+
+  const handleExportCsv = () => {
+    downloadFile(dealComparisonToCsv(comparison), `Deal_Comparison_${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
+  };
+
+  const handleExportPdf = () => {
+    setGeneratingPdf(true);
+
+    // Wait for the action buttons to drop out of the layout
+    setTimeout(async () => {
+      try {
+        const element = document.getElementById('deal-comparison-container');
+        if (!element) throw new Error("Comparison not found");
+        await exportElementToPdf(element, `Deal_Comparison_${new Date().toISOString().slice(0, 10)}.pdf`);
+      } catch (err) {
+        console.error("PDF Generation failed", err);
+      } finally {
+        setGeneratingPdf(false);
+      }
+    }, 500);
+  };
+
+  return (
+    <div
+      id="deal-comparison-container"
+      className={`w-full max-w-5xl mb-10 bg-white p-6 rounded-xl shadow-sm border border-gray-100 animate-fade-in-up ${generatingPdf ? 'shadow-none max-w-none w-[1000px]' : ''}`}
+    >
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Deal Comparison</h3>
+          <p className="text-xs text-gray-400 mt-1">Ranked by average placing across the ranked rows. Best value in each row is highlighted.</p>
+        </div>
+        {!generatingPdf && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleExportCsv}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 rounded-lg transition-colors border border-gray-200"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={handleExportPdf}
+              className="px-3 py-1.5 text-xs font-medium text-brand-700 bg-brand-50 hover:bg-brand-100 rounded-lg transition-colors border border-brand-200"
+            >
+              Save PDF
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1" title="Close comparison">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-600">
+          <thead className="text-xs text-gray-700 bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 uppercase">Metric</th>
+              {comparison.deals.map((deal, i) => (
+                <th key={deal.analysis.id} className="px-4 py-3 text-right align-bottom">
+                  <span className={`inline-block mb-1 px-2 py-0.5 rounded-full text-[10px] font-bold ${i === 0 ? 'bg-brand-600 text-white' : 'bg-gray-200 text-gray-600'}`}>
+                    #{i + 1}
+                  </span>
+                  <button
+                    onClick={() => onOpen(deal.analysis)}
+                    className="block w-full text-right font-semibold normal-case text-gray-900 hover:text-brand-600"
+                    title="Open this analysis"
+                  >
+                    {deal.analysis.address.split(',')[0]}
+                  </button>
+                  {deal.analysis.scenarios.length > 1 && (
+                    <span className="block text-[10px] font-normal text-gray-400">{deal.scenarioName}</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.rows.map(row => (
+              <tr key={row.key} className="border-b">
+                <td className="px-4 py-2 font-medium text-gray-700">{row.label}</td>
+                {row.values.map((value, i) => (
+                  <td
+                    key={comparison.deals[i].analysis.id}
+                    className={`px-4 py-2 text-right ${row.best === value ? 'bg-green-50 font-bold text-green-700' : ''}`}
+                  >
+                    {formatComparisonValue(value, row.format)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,83 @@
-import React from 'react';
-import { PropertyData, FinancialParams } from '../types';
+import React, { useState } from 'react';
+import {
+  PropertyData,
+  FinancialParams,
+  RateReset,
+  SecondLoan,
+  ExpenseItem,
+  ExpenseCategory,
+  ExpenseAmountType,
+  RentRollUnit,
+  RentBasis,
+  OtherIncomeStream,
+  OtherIncomeType,
+  DepreciationSchedule,
+  ValueAddPlan,
+  RehabItem,
+  ShortTermRental,
+  AIResponseField,
+} from '../types';
+import { resolveExitAssumptions } from '../utils/returns';
+import { resolveTaxAssumptions } from '../utils/taxes';
+import { MONTH_LABELS, averageOccupancy, createShortTermRental } from '../utils/shortTermRental';
+import { createRehabItem, createValueAddPlan, postRehabRent } from '../utils/valueAdd';
+import { calculateAverageRent, calculateExpenseBase, formatCurrency } from '../utils/calculations';
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_AMOUNT_TYPES,
+  annualExpenseAmount,
+  createExpenseItem,
+  findExpenseCategory,
+  isPercentExpense,
+} from '../utils/expenses';
+import { LEASE_EXPIRATION_WINDOW_MONTHS, resizeRentRoll, summarizeRentRoll } from '../utils/rentRoll';
+import { OTHER_INCOME_TYPES, createOtherIncomeStream } from '../utils/otherIncome';
+import { SourceBadge } from './SourceBadge';
+
+const STANDARD_LOAN_TERMS = [10, 15, 20, 25, 30, 40];
+
+const DEFAULT_SECOND_LOAN: SecondLoan = {
+  amountPercent: 10,
+  interestRate: 6,
+  termYears: 10,
+  interestOnly: true,
+};
+
+const VALUE_ADD_FIELDS: {
+  key: 'rehabMonths' | 'holdingCostsMonthly' | 'afterRepairValue' | 'refinanceLtvPercent' | 'refinanceRate' | 'refinanceTermYears' | 'refinanceClosingCostsPercent';
+  label: string;
+  step: string;
+}[] = [
+  { key: 'rehabMonths', label: 'Rehab Period (Months)', step: '1' },
+  { key: 'holdingCostsMonthly', label: 'Holding Costs ($/mo)', step: '50' },
+  { key: 'afterRepairValue', label: 'After-Repair Value ($)', step: '5000' },
+  { key: 'refinanceLtvPercent', label: 'Refi LTV (%)', step: '5' },
+  { key: 'refinanceRate', label: 'Refi Rate (%)', step: '0.125' },
+  { key: 'refinanceTermYears', label: 'Refi Term (Years)', step: '5' },
+  { key: 'refinanceClosingCostsPercent', label: 'Refi Closing Costs (%)', step: '0.5' },
+];
+
+const SHORT_TERM_RENTAL_FIELDS: {
+  key: Exclude<keyof ShortTermRental, 'monthlyOccupancyPercent'>;
+  label: string;
+  step: string;
+}[] = [
+  { key: 'averageDailyRate', label: 'Average Daily Rate ($)', step: '5' },
+  { key: 'averageStayNights', label: 'Average Stay (Nights)', step: '0.5' },
+  { key: 'cleaningFeePerStay', label: 'Cleaning Fee Charged ($/stay)', step: '5' },
+  { key: 'cleaningCostPerStay', label: 'Cleaning Cost ($/stay)', step: '5' },
+  { key: 'platformFeePercent', label: 'Platform Fee (%)', step: '0.5' },
+  { key: 'managementFeePercent', label: 'Management Fee (%)', step: '1' },
+  { key: 'utilitiesMonthly', label: 'Utilities ($/mo per unit)', step: '25' },
+  { key: 'furnishingCost', label: 'Furnishing ($ per unit)', step: '500' },
+];
+
+// Expense items seeded from the AI response, by the ids `expenseItemsFromFields` gives them
+const EXPENSE_RESPONSE_FIELDS: Record<string, AIResponseField> = {
+  tax: 'propertyTaxAnnual',
+  insurance: 'insuranceAnnual',
+  hoa: 'hoaMonthly',
+};
 
 interface FinancialInputsProps {
   property: PropertyData;
@@ -20,38 +98,173 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
     onParamsChange({ ...params, [key]: value });
   };
 
+  const diagnostics = property.diagnostics || [];
+
+  // Editing an AI-sourced input replaces the model's value, so its warning and source go away
+  const withoutDiagnostics = (fields: string[]) => {
+    const remaining = diagnostics.filter(d => !fields.includes(d.field));
+    const provenance = Object.fromEntries(Object.entries(property.provenance ?? {}).filter(([key]) => !fields.includes(key)));
+    return {
+      diagnostics: remaining.length > 0 ? remaining : undefined,
+      provenance: Object.keys(provenance).length > 0 ? provenance : undefined,
+    };
+  };
+
+  // Warning marker for a defaulted value, or the source badge for one the AI supplied
+  const fieldNotes = (field: AIResponseField) => {
+    const found = diagnostics.filter(d => d.field === field);
+    return (
+      <>
+        {found.length > 0 && (
+          <span
+            className="ml-1 text-amber-500 cursor-help normal-case"
+            title={`${found.map(d => d.message).join('\n')}\nPlease verify this value.`}
+          >
+            ⚠
+          </span>
+        )}
+        <SourceBadge provenance={property.provenance?.[field]} />
+      </>
+    );
+  };
+
+  const shortTermRental = property.shortTermRental;
+
+  const handleShortTermRentalChange = (changes: Partial<ShortTermRental>) => {
+    if (!shortTermRental) return;
+    onPropertyChange({
+      ...property,
+      shortTermRental: { ...shortTermRental, ...changes },
+      ...withoutDiagnostics(Object.keys(changes)),
+    });
+  };
+
+  const valueAdd = params.valueAdd;
+
+  const handleValueAddChange = (changes: Partial<ValueAddPlan>) => {
+    if (!valueAdd) return;
+    onParamsChange({ ...params, valueAdd: { ...valueAdd, ...changes } });
+  };
+
+  const handleRehabItemChange = (id: string, changes: Partial<RehabItem>) => {
+    if (!valueAdd) return;
+    handleValueAddChange({
+      rehabItems: valueAdd.rehabItems.map(item => item.id === id ? { ...item, ...changes } : item),
+    });
+  };
+
+  const exitAssumptions = resolveExitAssumptions(property, params);
+  const taxAssumptions = resolveTaxAssumptions(params);
+  const loanTermOptions = STANDARD_LOAN_TERMS.includes(params.loanTermYears)
+    ? STANDARD_LOAN_TERMS
+    : [...STANDARD_LOAN_TERMS, params.loanTermYears].sort((a, b) => a - b);
+
+  const rateResets = params.rateResets || [];
+  const hasAdvancedFinancing = Boolean(
+    params.interestOnlyYears || rateResets.length > 0 || params.balloonYears ||
+    params.pointsPercent || params.originationFeePercent || params.pmiRatePercent || params.secondLoan
+  );
+  const [showAdvanced, setShowAdvanced] = useState(hasAdvancedFinancing);
+
+  const handleRateResetChange = (index: number, key: keyof RateReset, value: number) => {
+    const next = [...rateResets];
+    next[index] = { ...next[index], [key]: value };
+    onParamsChange({ ...params, rateResets: next });
+  };
+
+  const handleSecondLoanChange = (changes: Partial<SecondLoan>) => {
+    onParamsChange({ ...params, secondLoan: { ...(params.secondLoan || DEFAULT_SECOND_LOAN), ...changes } });
+  };
+
+  const otherIncome = property.otherIncome || [];
+
+  const handleOtherIncomeChange = (id: string, changes: Partial<OtherIncomeStream>) => {
+    // Picking a type names an untouched stream after it
+    const typeLabel = (type: OtherIncomeType) => OTHER_INCOME_TYPES.find(t => t.key === type)?.label;
+    onPropertyChange({
+      ...property,
+      otherIncome: otherIncome.map(stream => {
+        if (stream.id !== id) return stream;
+        const renamed = changes.type && stream.name === typeLabel(stream.type) ? { name: typeLabel(changes.type) } : {};
+        return { ...stream, ...changes, ...renamed };
+      }),
+    });
+  };
+
+  const expenses = property.expenses || [];
+  const expenseBase = calculateExpenseBase(property, params.rentBasis);
+
+  const handleExpenseChange = (id: string, changes: Partial<ExpenseItem>) => {
+    onPropertyChange({
+      ...property,
+      expenses: expenses.map(item => item.id === id ? { ...item, ...changes } : item),
+      ...(changes.amount !== undefined && EXPENSE_RESPONSE_FIELDS[id] ? withoutDiagnostics([EXPENSE_RESPONSE_FIELDS[id]]) : {}),
+    });
+  };
+
+  const formatExpenseAmount = (item: ExpenseItem) => {
+    switch (item.amountType) {
+      case 'PERCENT_EGI': return `${item.amount}% of EGI`;
+      case 'PERCENT_GROSS_RENT': return `${item.amount}% of gross rent`;
+      case 'MONTHLY': return `${formatCurrency(item.amount)}/mo`;
+      case 'PER_UNIT': return `${formatCurrency(item.amount)}/unit/yr`;
+      default: return `${formatCurrency(item.amount)}/yr`;
+    }
+  };
+
   const handlePropChange = (key: keyof PropertyData, value: number) => {
-    onPropertyChange({ ...property, [key]: value });
+    onPropertyChange({ ...property, [key]: value, ...withoutDiagnostics([key]) });
   };
 
+  const rentRoll = property.rentRoll || [];
+  const rentBasis = params.rentBasis || 'IN_PLACE';
+  const rentRollSummary = summarizeRentRoll(rentRoll);
+
   const handleNumUnitsChange = (val: number) => {
     const newCount = Math.max(1, Math.floor(val));
-    let newRents = [...(property.unitRents || [])];
-    
-    if (newCount > newRents.length) {
-      // Fill new slots with the last known rent or the estimated average
-      const fillValue = newRents.length > 0 ? newRents[newRents.length - 1] : property.estimatedRentPerUnit;
-      for (let i = newRents.length; i < newCount; i++) {
-        newRents.push(fillValue);
-      }
-    } else if (newCount < newRents.length) {
-      newRents = newRents.slice(0, newCount);
-    }
-
-    onPropertyChange({ 
-      ...property, 
-      numUnits: newCount, 
-      unitRents: newRents 
+    onPropertyChange({
+      ...property,
+      numUnits: newCount,
+      rentRoll: resizeRentRoll(rentRoll, newCount, property.estimatedRentPerUnit),
+      ...withoutDiagnostics(['numUnits']),
     });
   };
 
-  const handleUnitRentChange = (index: number, val: number) => {
-    const newRents = [...(property.unitRents || [])];
-    newRents[index] = val;
-    onPropertyChange({ ...property, unitRents: newRents });
+  const handleUnitChange = (id: string, changes: Partial<RentRollUnit>) => {
+    onPropertyChange({
+      ...property,
+      rentRoll: rentRoll.map(unit => unit.id === id ? { ...unit, ...changes } : unit),
+      ...(changes.currentRent !== undefined || changes.marketRent !== undefined ? withoutDiagnostics(['estimatedRentPerUnit']) : {}),
+    });
   };
 
   // Styles
+  const cellInputClass = `
+    w-full min-w-[3.5rem] px-1.5 py-1 border border-blue-200 rounded
+    focus:ring-1 focus:ring-brand-500 focus:outline-none
+    bg-white text-gray-900 text-xs
+    print:hidden
+  `;
+
+  const unitField = (
+    unit: RentRollUnit,
+    field: Exclude<keyof RentRollUnit, 'id' | 'occupied'>,
+    type: 'text' | 'number' | 'date'
+  ) => {
+    if (isPdfMode) return <span className="text-black">{unit[field] || (type === 'number' ? 0 : '—')}</span>;
+    return (
+      <input
+        type={type}
+        min={type === 'number' ? '0' : undefined}
+        value={unit[field] ?? ''}
+        onChange={(e) => handleUnitChange(unit.id, {
+          // A cleared date means the lease date is unknown
+          [field]: type === 'number' ? parseFloat(e.target.value) || 0 : type === 'date' ? e.target.value || undefined : e.target.value,
+        })}
+        className={`${cellInputClass} ${type === 'date' ? 'min-w-[7.5rem]' : ''}`}
+      />
+    );
+  };
   const inputClass = `
     w-full px-3 py-2 border border-blue-200 rounded-lg 
     focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow 
@@ -76,6 +289,27 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
         Investment Assumptions
       </h3>
       
+      {diagnostics.length > 0 && (
+        <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 print:break-inside-avoid">
+          <div className="flex justify-between items-start gap-2">
+            <p className="font-bold">
+              ⚠ {diagnostics.length} {diagnostics.length === 1 ? 'value' : 'values'} from the AI analysis could not be verified. Marked inputs use defaults; please check them.
+            </p>
+            {!isPdfMode && (
+              <button
+                onClick={() => onPropertyChange({ ...property, diagnostics: undefined })}
+                className="text-amber-600 hover:text-amber-900 font-medium shrink-0 print:hidden"
+              >
+                Dismiss
+              </button>
+            )}
+          </div>
+          <ul className="mt-1 space-y-0.5">
+            {diagnostics.map(d => <li key={d.field}>{d.message}</li>)}
+          </ul>
+        </div>
+      )}
+
       <div className={`space-y-8 ${isPdfMode ? 'space-y-4' : ''} print:space-y-4`}>
         {/* Mortgage Section */}
         <div className="print:break-inside-avoid">
@@ -123,8 +357,9 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
                   onChange={(e) => handleParamChange('loanTermYears', parseInt(e.target.value))}
                   className={`${inputClass} appearance-none`}
                 >
-                  <option value={15}>15</option>
-                  <option value={30}>30</option>
+                  {loanTermOptions.map(term => (
+                    <option key={term} value={term}>{term}</option>
+                  ))}
                 </select>
               )}
             </div>
@@ -147,6 +382,261 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
           </div>
         </div>
 
+        {/* Advanced Financing */}
+        {(!isPdfMode || hasAdvancedFinancing) && (
+        <div className="print:break-inside-avoid">
+          <h4 className={sectionHeaderClass}>
+            <svg className={`w-4 h-4 mr-2 ${isPdfMode ? 'hidden' : ''} print:hidden`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z"></path></svg>
+            Advanced Financing
+            {!isPdfMode && (
+              <button
+                onClick={() => setShowAdvanced(!showAdvanced)}
+                className="ml-auto text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+              >
+                {showAdvanced ? 'Hide' : 'Show'}
+              </button>
+            )}
+          </h4>
+          {(showAdvanced || isPdfMode) && (
+          <div className={`space-y-4 ${isPdfMode ? 'space-y-1' : ''} print:space-y-1`}>
+            <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
+              <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                <label className={labelClass}>Interest-Only (Years)</label>
+                {isPdfMode ? (
+                  <span className={pdfValueClass}>{params.interestOnlyYears || 0}</span>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    max={params.loanTermYears}
+                    step="1"
+                    value={params.interestOnlyYears || 0}
+                    onChange={(e) => handleParamChange('interestOnlyYears', Math.max(0, parseInt(e.target.value) || 0))}
+                    className={inputClass}
+                  />
+                )}
+              </div>
+              <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                <label className={labelClass}>Balloon Due (Year)</label>
+                {isPdfMode ? (
+                  <span className={pdfValueClass}>{params.balloonYears || 'None'}</span>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    max={params.loanTermYears}
+                    step="1"
+                    value={params.balloonYears || 0}
+                    onChange={(e) => handleParamChange('balloonYears', Math.max(0, parseInt(e.target.value) || 0))}
+                    className={inputClass}
+                    title="0 for no balloon"
+                  />
+                )}
+              </div>
+              <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                <label className={labelClass}>Points (%)</label>
+                {isPdfMode ? (
+                  <span className={pdfValueClass}>{params.pointsPercent || 0}</span>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    value={params.pointsPercent || 0}
+                    onChange={(e) => handleParamChange('pointsPercent', parseFloat(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                )}
+              </div>
+              <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                <label className={labelClass}>Origination Fee (%)</label>
+                {isPdfMode ? (
+                  <span className={pdfValueClass}>{params.originationFeePercent || 0}</span>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    value={params.originationFeePercent || 0}
+                    onChange={(e) => handleParamChange('originationFeePercent', parseFloat(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                )}
+              </div>
+              <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                <label className={labelClass}>PMI Rate (%/yr)</label>
+                {isPdfMode ? (
+                  <span className={pdfValueClass}>{params.pmiRatePercent || 0}</span>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.05"
+                    value={params.pmiRatePercent || 0}
+                    onChange={(e) => handleParamChange('pmiRatePercent', parseFloat(e.target.value) || 0)}
+                    className={inputClass}
+                    title="Charged only while less than 20% down, until the balance reaches 80% of the price"
+                  />
+                )}
+              </div>
+            </div>
+
+            {/* ARM Rate Resets */}
+            <div>
+              <label className={labelClass}>ARM Rate Resets</label>
+              <div className="space-y-2">
+                {rateResets.map((reset, idx) => (
+                  isPdfMode ? (
+                    <div key={idx} className="text-sm text-black">Year {reset.year}: {reset.rate}%</div>
+                  ) : (
+                    <div key={idx} className="flex gap-2 items-center">
+                      <span className="text-xs text-gray-500">Yr</span>
+                      <input
+                        type="number"
+                        min="2"
+                        step="1"
+                        value={reset.year}
+                        onChange={(e) => handleRateResetChange(idx, 'year', Math.max(2, parseInt(e.target.value) || 2))}
+                        className={inputClass}
+                      />
+                      <span className="text-xs text-gray-500">%</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.125"
+                        value={reset.rate}
+                        onChange={(e) => handleRateResetChange(idx, 'rate', parseFloat(e.target.value) || 0)}
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => onParamsChange({ ...params, rateResets: rateResets.filter((_, i) => i !== idx) })}
+                        className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors"
+                        title="Remove reset"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                      </button>
+                    </div>
+                  )
+                ))}
+                {!isPdfMode && (
+                  <button
+                    onClick={() => onParamsChange({
+                      ...params,
+                      rateResets: [...rateResets, { year: (rateResets[rateResets.length - 1]?.year ?? 5) + 1, rate: params.interestRate + 1 }],
+                    })}
+                    className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+                  >
+                    + Add rate reset
+                  </button>
+                )}
+                {isPdfMode && rateResets.length === 0 && (
+                  <div className="text-sm text-gray-400">Fixed rate</div>
+                )}
+              </div>
+            </div>
+
+            {/* Second Loan */}
+            <div>
+              <label className={`flex items-center gap-2 ${labelClass}`}>
+                {!isPdfMode && (
+                  <input
+                    type="checkbox"
+                    checked={Boolean(params.secondLoan)}
+                    onChange={(e) => onParamsChange({ ...params, secondLoan: e.target.checked ? DEFAULT_SECOND_LOAN : undefined })}
+                    className="print:hidden"
+                  />
+                )}
+                Seller Carry / Second Loan
+              </label>
+              {params.secondLoan && (
+                <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
+                  <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                    <label className={labelClass}>Amount (% of Price)</label>
+                    {isPdfMode ? (
+                      <span className={pdfValueClass}>{params.secondLoan.amountPercent}</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min="0"
+                        max={params.downPaymentPercent}
+                        step="1"
+                        value={params.secondLoan.amountPercent}
+                        onChange={(e) => handleSecondLoanChange({ amountPercent: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                        title="Funds part of the down payment"
+                      />
+                    )}
+                  </div>
+                  <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                    <label className={labelClass}>Rate (%)</label>
+                    {isPdfMode ? (
+                      <span className={pdfValueClass}>{params.secondLoan.interestRate}</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.25"
+                        value={params.secondLoan.interestRate}
+                        onChange={(e) => handleSecondLoanChange({ interestRate: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    )}
+                  </div>
+                  <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                    <label className={labelClass}>Term (Years)</label>
+                    {isPdfMode ? (
+                      <span className={pdfValueClass}>{params.secondLoan.termYears}</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={params.secondLoan.termYears}
+                        onChange={(e) => handleSecondLoanChange({ termYears: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className={inputClass}
+                      />
+                    )}
+                  </div>
+                  <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                    <label className={labelClass}>Balloon (Year)</label>
+                    {isPdfMode ? (
+                      <span className={pdfValueClass}>{params.secondLoan.balloonYears || 'None'}</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={params.secondLoan.balloonYears || 0}
+                        onChange={(e) => handleSecondLoanChange({ balloonYears: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className={inputClass}
+                        title="0 for no balloon"
+                      />
+                    )}
+                  </div>
+                  <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                    <label className={`flex items-center gap-2 ${labelClass}`}>
+                      {!isPdfMode && (
+                        <input
+                          type="checkbox"
+                          checked={params.secondLoan.interestOnly}
+                          onChange={(e) => handleSecondLoanChange({ interestOnly: e.target.checked })}
+                          className="print:hidden"
+                        />
+                      )}
+                      Interest Only
+                    </label>
+                    {isPdfMode && (
+                      <span className={pdfValueClass}>{params.secondLoan.interestOnly ? 'Yes' : 'No'}</span>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          )}
+        </div>
+        )}
+
         {/* Property Details */}
         <div className="print:break-inside-avoid">
            <h4 className={sectionHeaderClass}>
@@ -155,7 +645,7 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
            </h4>
            <div className={`grid grid-cols-1 gap-4 ${isPdfMode ? 'gap-2' : ''} print:gap-2`}>
               <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                 <label className={labelClass}>Purchase Price ($)</label>
+                 <label className={labelClass}>Purchase Price ($){fieldNotes('listPrice')}</label>
                  {isPdfMode ? (
                    <span className={pdfValueClass}>{property.listPrice}</span>
                  ) : (
@@ -170,7 +660,7 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
               
               <div className={`grid grid-cols-1 gap-4 ${isPdfMode ? 'gap-2' : ''} print:gap-2`}>
                 <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                  <label className={labelClass}>Total Units</label>
+                  <label className={labelClass}>Total Units{fieldNotes('numUnits')}</label>
                   {isPdfMode ? (
                     <span className={pdfValueClass}>{property.numUnits}</span>
                   ) : (
@@ -185,30 +675,110 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
                   )}
                 </div>
                 
-                {/* Dynamic Rent Inputs */}
+                {/* Rent Roll */}
                 <div className={`bg-blue-50/50 p-3 rounded-lg border border-blue-100 ${isPdfMode ? 'bg-transparent border-none p-0' : ''} print:bg-transparent print:border-none print:p-0`}>
-                  <label className={`block text-xs font-bold text-brand-800 mb-3 uppercase tracking-wide border-b border-blue-200 pb-1 ${isPdfMode ? 'text-gray-500 border-none mb-1' : ''} print:text-gray-500 print:border-none print:mb-1`}>
-                    Rent Per Unit
-                  </label>
-                  <div className={`grid grid-cols-2 gap-3 max-h-[300px] overflow-y-auto pr-1 ${isPdfMode ? 'max-h-none grid-cols-2 gap-x-8 gap-y-1' : ''} print:max-h-none print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
-                    {property.unitRents && property.unitRents.map((rent, idx) => (
-                      <div key={idx} className={`relative ${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                        <label className={`text-[10px] text-gray-500 font-bold mb-0.5 block ${isPdfMode ? 'text-gray-500 mb-0' : ''} print:text-gray-500 print:mb-0`}>Unit {idx + 1}</label>
-                        {isPdfMode ? (
-                          <span className={pdfValueClass}>{rent}</span>
+                  <div className={`flex justify-between items-center mb-3 border-b border-blue-200 pb-1 ${isPdfMode ? 'border-none mb-1' : ''} print:border-none print:mb-1`}>
+                    <label className={`block text-xs font-bold text-brand-800 uppercase tracking-wide ${isPdfMode ? 'text-gray-500' : ''} print:text-gray-500`}>
+                      Rent Roll{fieldNotes('estimatedRentPerUnit')}
+                    </label>
+                    {isPdfMode ? (
+                      <span className="text-xs text-gray-500">{rentBasis === 'MARKET' ? 'Underwritten at market rents' : 'Underwritten at in-place rents'}</span>
+                    ) : (
+                      <select
+                        value={rentBasis}
+                        onChange={(e) => onParamsChange({ ...params, rentBasis: e.target.value as RentBasis })}
+                        className="text-xs bg-white border border-blue-200 rounded px-1 py-0.5 text-gray-700 focus:outline-none focus:ring-1 focus:ring-brand-500 print:hidden"
+                        title="Rents used for gross income"
+                      >
+                        <option value="IN_PLACE">In-place rents</option>
+                        <option value="MARKET">Market rents</option>
+                      </select>
+                    )}
+                  </div>
+                  <div className={`overflow-x-auto max-h-[300px] overflow-y-auto ${isPdfMode ? 'max-h-none overflow-visible' : ''} print:max-h-none print:overflow-visible`}>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-[10px] text-gray-500 uppercase text-left">
+                          <th className="px-1 pb-1">Unit</th>
+                          <th className="px-1 pb-1">Bd</th>
+                          <th className="px-1 pb-1">Ba</th>
+                          <th className="px-1 pb-1">Sq Ft</th>
+                          <th className="px-1 pb-1">Rent</th>
+                          <th className="px-1 pb-1">Market</th>
+                          <th className="px-1 pb-1">Lease Start</th>
+                          <th className="px-1 pb-1">Lease End</th>
+                          <th className="px-1 pb-1">Occ.</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rentRoll.map(unit => (
+                          <tr key={unit.id} className={unit.occupied ? '' : 'text-gray-400'}>
+                            <td className="px-1 py-0.5">{unitField(unit, 'label', 'text')}</td>
+                            <td className="px-1 py-0.5">{unitField(unit, 'bedrooms', 'number')}</td>
+                            <td className="px-1 py-0.5">{unitField(unit, 'bathrooms', 'number')}</td>
+                            <td className="px-1 py-0.5">{unitField(unit, 'squareFeet', 'number')}</td>
+                            <td className="px-1 py-0.5">{unitField(unit, 'currentRent', 'number')}</td>
+                            <td className="px-1 py-0.5">{unitField(unit, 'marketRent', 'number')}</td>
+                            <td className="px-1 py-0.5">{unitField(unit, 'leaseStart', 'date')}</td>
+                            <td className="px-1 py-0.5">{unitField(unit, 'leaseEnd', 'date')}</td>
+                            <td className="px-1 py-0.5 text-center">
+                              {isPdfMode ? (
+                                <span className="text-black">{unit.occupied ? 'Yes' : 'No'}</span>
+                              ) : (
+                                <input
+                                  type="checkbox"
+                                  checked={unit.occupied}
+                                  onChange={(e) => handleUnitChange(unit.id, { occupied: e.target.checked })}
+                                  className="print:hidden"
+                                />
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {rentRoll.length === 0 && (
+                     <div className="text-sm text-gray-400 italic p-2">No units defined.</div>
+                  )}
+
+                  {rentRoll.length > 0 && (
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 pt-2 border-t border-blue-100 text-xs">
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Occupancy</span>
+                        <span className="font-bold text-gray-900">
+                          {rentRollSummary.occupiedUnits}/{rentRollSummary.unitCount} ({rentRollSummary.occupancyPercent.toFixed(0)}%)
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Loss-to-Lease</span>
+                        <span className={`font-bold ${rentRollSummary.lossToLeaseMonthly > 0 ? 'text-amber-600' : 'text-gray-900'}`}>
+                          {formatCurrency(rentRollSummary.lossToLeaseMonthly * 12)}/yr ({rentRollSummary.lossToLeasePercent.toFixed(1)}%)
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Rent / Sq Ft</span>
+                        <span className="font-bold text-gray-900">
+                          {rentRollSummary.squareFeet > 0 ? `$${rentRollSummary.inPlaceRentPerSqFt.toFixed(2)}` : '—'}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Market / Sq Ft</span>
+                        <span className="font-bold text-gray-900">
+                          {rentRollSummary.squareFeet > 0 ? `$${rentRollSummary.marketRentPerSqFt.toFixed(2)}` : '—'}
+                        </span>
+                      </div>
+                      <div className="col-span-2">
+                        <span className="text-gray-500">Leases expiring in {LEASE_EXPIRATION_WINDOW_MONTHS} months: </span>
+                        {rentRollSummary.upcomingExpirations.length === 0 ? (
+                          <span className="text-gray-400">None</span>
                         ) : (
-                          <input 
-                             type="number"
-                             value={rent}
-                             onChange={(e) => handleUnitRentChange(idx, parseFloat(e.target.value) || 0)}
-                             className={inputClass}
-                          />
+                          <span className="font-medium text-gray-900">
+                            {rentRollSummary.upcomingExpirations.map(unit => `${unit.label} (${unit.leaseEnd})`).join(', ')}
+                          </span>
                         )}
                       </div>
-                    ))}
-                  </div>
-                  {(!property.unitRents || property.unitRents.length === 0) && (
-                     <div className="text-sm text-gray-400 italic p-2">No units defined.</div>
+                    </div>
                   )}
                 </div>
 
@@ -216,53 +786,265 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
            </div>
         </div>
 
-        {/* Expenses Section */}
+        {/* Short-Term Rental */}
+        {(!isPdfMode || shortTermRental) && (
+        <div className="print:break-inside-avoid">
+          <h4 className={sectionHeaderClass}>
+            <svg className={`w-4 h-4 mr-2 ${isPdfMode ? 'hidden' : ''} print:hidden`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
+            Short-Term Rental
+          </h4>
+          {!isPdfMode && (
+            <label className={`flex items-center gap-2 mb-3 ${labelClass}`}>
+              <input
+                type="checkbox"
+                checked={Boolean(shortTermRental)}
+                onChange={(e) => onPropertyChange({
+                  ...property,
+                  shortTermRental: e.target.checked ? createShortTermRental(calculateAverageRent(property, params.rentBasis)) : undefined,
+                })}
+                className="print:hidden"
+              />
+              Underwrite as a nightly rental
+            </label>
+          )}
+          {shortTermRental && (
+            <div className={`space-y-4 ${isPdfMode ? 'space-y-1' : ''} print:space-y-1`}>
+              <p className="text-xs text-gray-500 print:hidden">
+                Replaces the rent roll and vacancy rate. Each unit is rented on these terms.
+              </p>
+              <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
+                {SHORT_TERM_RENTAL_FIELDS.map(field => (
+                  <div key={field.key} className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                    <label className={labelClass}>{field.label}{fieldNotes(field.key as AIResponseField)}</label>
+                    {isPdfMode ? (
+                      <span className={pdfValueClass}>{shortTermRental[field.key]}</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min="0"
+                        step={field.step}
+                        value={shortTermRental[field.key]}
+                        onChange={(e) => handleShortTermRentalChange({ [field.key]: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Seasonality */}
+              <div>
+                <label className={labelClass}>
+                  Occupancy by Month (%) — {averageOccupancy(shortTermRental).toFixed(1)}% avg{fieldNotes('monthlyOccupancyPercent')}
+                </label>
+                <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 print:grid-cols-6">
+                  {MONTH_LABELS.map((month, i) => (
+                    <div key={month}>
+                      <label className="text-[10px] text-gray-500 font-bold mb-0.5 block">{month}</label>
+                      {isPdfMode ? (
+                        <span className={pdfValueClass}>{shortTermRental.monthlyOccupancyPercent[i] ?? 0}</span>
+                      ) : (
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="5"
+                          value={shortTermRental.monthlyOccupancyPercent[i] ?? 0}
+                          onChange={(e) => handleShortTermRentalChange({
+                            monthlyOccupancyPercent: MONTH_LABELS.map((_, m) =>
+                              m === i
+                                ? Math.min(100, Math.max(0, parseFloat(e.target.value) || 0))
+                                : shortTermRental.monthlyOccupancyPercent[m] ?? 0
+                            ),
+                          })}
+                          className={cellInputClass}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+        )}
+
+        {/* Other Income */}
+        <div className="print:break-inside-avoid">
+            <h4 className={sectionHeaderClass}>
+              <svg className={`w-4 h-4 mr-2 ${isPdfMode ? 'hidden' : ''} print:hidden`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+              Other Income
+            </h4>
+            <div className="space-y-2">
+              {otherIncome.map((stream) => (
+                isPdfMode ? (
+                  <div key={stream.id} className="flex justify-between items-center text-sm">
+                    <span className="text-gray-600">
+                      {stream.name} <span className="text-xs text-gray-400">({stream.vacancyPercent}% vacancy, {stream.growthPercent}% growth)</span>
+                    </span>
+                    <span className="font-bold text-black">{formatCurrency(stream.monthlyAmount)}/mo</span>
+                  </div>
+                ) : (
+                  <div key={stream.id} className="p-2 bg-gray-50 rounded-lg space-y-2">
+                    <div className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        value={stream.name}
+                        onChange={(e) => handleOtherIncomeChange(stream.id, { name: e.target.value })}
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => onPropertyChange({ ...property, otherIncome: otherIncome.filter(o => o.id !== stream.id) })}
+                        className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors print:hidden"
+                        title="Remove income stream"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-[10px] text-gray-500 font-bold mb-0.5">Type</label>
+                        <select
+                          value={stream.type}
+                          onChange={(e) => handleOtherIncomeChange(stream.id, { type: e.target.value as OtherIncomeType })}
+                          className={`${inputClass} appearance-none text-xs px-2`}
+                        >
+                          {OTHER_INCOME_TYPES.map(t => (
+                            <option key={t.key} value={t.key}>{t.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-[10px] text-gray-500 font-bold mb-0.5">$ / Month</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="25"
+                          value={stream.monthlyAmount}
+                          onChange={(e) => handleOtherIncomeChange(stream.id, { monthlyAmount: parseFloat(e.target.value) || 0 })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] text-gray-500 font-bold mb-0.5">Vacancy / Loss (%)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          value={stream.vacancyPercent}
+                          onChange={(e) => handleOtherIncomeChange(stream.id, { vacancyPercent: Math.min(100, parseFloat(e.target.value) || 0) })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] text-gray-500 font-bold mb-0.5">Growth (%/yr)</label>
+                        <input
+                          type="number"
+                          step="0.5"
+                          value={stream.growthPercent}
+                          onChange={(e) => handleOtherIncomeChange(stream.id, { growthPercent: parseFloat(e.target.value) || 0 })}
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )
+              ))}
+              {!isPdfMode && (
+                <button
+                  onClick={() => onPropertyChange({ ...property, otherIncome: [...otherIncome, createOtherIncomeStream()] })}
+                  className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+                >
+                  + Add income stream
+                </button>
+              )}
+              {isPdfMode && otherIncome.length === 0 && (
+                <div className="text-sm text-gray-400">No other income</div>
+              )}
+            </div>
+        </div>
+
+        {/* Operating Expense Ledger */}
         <div className="print:break-inside-avoid">
             <h4 className={sectionHeaderClass}>
               <svg className={`w-4 h-4 mr-2 ${isPdfMode ? 'hidden' : ''} print:hidden`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
-              Fixed Expenses
+              Operating Expenses
             </h4>
-            <div className={`grid grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
-                <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                  <label className={labelClass}>Annual Tax ($)</label>
-                  {isPdfMode ? (
-                    <span className={pdfValueClass}>{property.propertyTaxAnnual}</span>
-                  ) : (
-                    <input
-                      type="number"
-                      value={property.propertyTaxAnnual}
-                      onChange={(e) => handlePropChange('propertyTaxAnnual', parseFloat(e.target.value) || 0)}
-                      className={inputClass}
-                    />
-                  )}
-                </div>
-                <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                   <label className={labelClass}>Annual Ins. ($)</label>
-                   {isPdfMode ? (
-                     <span className={pdfValueClass}>{property.insuranceAnnual}</span>
-                   ) : (
-                     <input
-                      type="number"
-                      value={property.insuranceAnnual}
-                      onChange={(e) => handlePropChange('insuranceAnnual', parseFloat(e.target.value) || 0)}
-                      className={inputClass}
-                    />
-                   )}
-                </div>
-                 <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                   <label className={labelClass}>Monthly HOA ($)</label>
-                   {isPdfMode ? (
-                     <span className={pdfValueClass}>{property.hoaMonthly}</span>
-                   ) : (
-                     <input
-                      type="number"
-                      value={property.hoaMonthly}
-                      onChange={(e) => handlePropChange('hoaMonthly', parseFloat(e.target.value) || 0)}
-                      className={inputClass}
-                    />
-                   )}
-                </div>
-              </div>
+            <div className="space-y-2">
+              {expenses.map((item) => (
+                isPdfMode ? (
+                  <div key={item.id} className="flex justify-between items-center text-sm">
+                    <span className="text-gray-600">
+                      {item.name} <span className="text-xs text-gray-400">({findExpenseCategory(item.category).label}, {formatExpenseAmount(item)})</span>
+                      {EXPENSE_RESPONSE_FIELDS[item.id] && fieldNotes(EXPENSE_RESPONSE_FIELDS[item.id])}
+                    </span>
+                    <span className="font-bold text-black">{formatCurrency(annualExpenseAmount(item, expenseBase))}</span>
+                  </div>
+                ) : (
+                  <div key={item.id} className="p-2 bg-gray-50 rounded-lg space-y-2">
+                    <div className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        value={item.name}
+                        onChange={(e) => handleExpenseChange(item.id, { name: e.target.value })}
+                        className={inputClass}
+                      />
+                      {EXPENSE_RESPONSE_FIELDS[item.id] && fieldNotes(EXPENSE_RESPONSE_FIELDS[item.id])}
+                      <button
+                        onClick={() => onPropertyChange({ ...property, expenses: expenses.filter(e => e.id !== item.id) })}
+                        className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors print:hidden"
+                        title="Remove expense"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <select
+                        value={item.category}
+                        onChange={(e) => handleExpenseChange(item.id, { category: e.target.value as ExpenseCategory })}
+                        className={`${inputClass} appearance-none text-xs px-2`}
+                      >
+                        {EXPENSE_CATEGORIES.map(c => (
+                          <option key={c.key} value={c.key}>{c.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={item.amountType}
+                        onChange={(e) => handleExpenseChange(item.id, { amountType: e.target.value as ExpenseAmountType })}
+                        className={`${inputClass} appearance-none text-xs px-2`}
+                      >
+                        {EXPENSE_AMOUNT_TYPES.map(t => (
+                          <option key={t.key} value={t.key}>{t.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        step={isPercentExpense(item.amountType) ? '0.5' : '50'}
+                        value={item.amount}
+                        onChange={(e) => handleExpenseChange(item.id, { amount: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500 text-right print:hidden">
+                      {formatCurrency(annualExpenseAmount(item, expenseBase))} / yr
+                    </div>
+                  </div>
+                )
+              ))}
+              {!isPdfMode && (
+                <button
+                  onClick={() => onPropertyChange({ ...property, expenses: [...expenses, createExpenseItem()] })}
+                  className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+                >
+                  + Add expense
+                </button>
+              )}
+              {isPdfMode && expenses.length === 0 && (
+                <div className="text-sm text-gray-400">No operating expenses</div>
+              )}
+            </div>
         </div>
 
         {/* Operating Factors */}
@@ -273,22 +1055,10 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
             </h4>
             <div className={`grid grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
                 <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                  <label className={labelClass}>Maint. Rate (%)</label>
-                  {isPdfMode ? (
-                    <span className={pdfValueClass}>{property.maintenanceRate}</span>
-                  ) : (
-                    <input
-                      type="number"
-                      step="0.5"
-                      value={property.maintenanceRate}
-                      onChange={(e) => handlePropChange('maintenanceRate', parseFloat(e.target.value) || 0)}
-                      className={inputClass}
-                    />
-                  )}
-                </div>
-                <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
-                   <label className={labelClass}>Vacancy Rate (%)</label>
-                   {isPdfMode ? (
+                   <label className={labelClass}>{shortTermRental ? 'Vacancy (from STR occupancy)' : 'Vacancy Rate (%)'}</label>
+                   {shortTermRental ? (
+                     <span className={pdfValueClass}>{(100 - averageOccupancy(shortTermRental)).toFixed(1)}%</span>
+                   ) : isPdfMode ? (
                      <span className={pdfValueClass}>{property.vacancyRate}</span>
                    ) : (
                      <input
@@ -303,6 +1073,305 @@ export const FinancialInputs: React.FC<FinancialInputsProps> = ({
             </div>
         </div>
 
+        {/* Value-Add / BRRRR */}
+        {(!isPdfMode || valueAdd) && (
+        <div className="print:break-inside-avoid">
+          <h4 className={sectionHeaderClass}>
+            <svg className={`w-4 h-4 mr-2 ${isPdfMode ? 'hidden' : ''} print:hidden`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 4a2 2 0 114 0v1a1 1 0 001 1h3a1 1 0 011 1v3a1 1 0 01-1 1h-1a2 2 0 100 4h1a1 1 0 011 1v3a1 1 0 01-1 1h-3a1 1 0 01-1-1v-1a2 2 0 10-4 0v1a1 1 0 01-1 1H7a1 1 0 01-1-1v-3a1 1 0 00-1-1H4a2 2 0 110-4h1a1 1 0 001-1V7a1 1 0 011-1h3a1 1 0 001-1V4z"></path></svg>
+            Value-Add / BRRRR
+          </h4>
+          {!isPdfMode && (
+            <label className={`flex items-center gap-2 mb-3 ${labelClass}`}>
+              <input
+                type="checkbox"
+                checked={Boolean(valueAdd)}
+                onChange={(e) => onParamsChange({ ...params, valueAdd: e.target.checked ? createValueAddPlan(property, params) : undefined })}
+                className="print:hidden"
+              />
+              Rehab &amp; Refinance
+            </label>
+          )}
+          {valueAdd && (
+            <div className={`space-y-4 ${isPdfMode ? 'space-y-1' : ''} print:space-y-1`}>
+              {/* Rehab Budget */}
+              <div>
+                <label className={labelClass}>Rehab Budget</label>
+                <div className="space-y-2">
+                  {valueAdd.rehabItems.map((item) => (
+                    isPdfMode ? (
+                      <div key={item.id} className="flex justify-between text-sm">
+                        <span className="text-gray-600">{item.name}</span>
+                        <span className="font-bold text-black">{formatCurrency(item.cost)}</span>
+                      </div>
+                    ) : (
+                      <div key={item.id} className="flex gap-2 items-center">
+                        <input
+                          type="text"
+                          value={item.name}
+                          onChange={(e) => handleRehabItemChange(item.id, { name: e.target.value })}
+                          className={inputClass}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="500"
+                          value={item.cost}
+                          onChange={(e) => handleRehabItemChange(item.id, { cost: parseFloat(e.target.value) || 0 })}
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => handleValueAddChange({ rehabItems: valueAdd.rehabItems.filter(r => r.id !== item.id) })}
+                          className="text-gray-300 hover:text-red-500 p-1 rounded-full hover:bg-red-50 transition-colors print:hidden"
+                          title="Remove item"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                        </button>
+                      </div>
+                    )
+                  ))}
+                  {!isPdfMode && (
+                    <button
+                      onClick={() => handleValueAddChange({ rehabItems: [...valueAdd.rehabItems, createRehabItem()] })}
+                      className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+                    >
+                      + Add rehab item
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
+                {VALUE_ADD_FIELDS.map(field => (
+                  <div key={field.key} className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                    <label className={labelClass}>{field.label}</label>
+                    {isPdfMode ? (
+                      <span className={pdfValueClass}>{valueAdd[field.key]}</span>
+                    ) : (
+                      <input
+                        type="number"
+                        min="0"
+                        step={field.step}
+                        value={valueAdd[field.key]}
+                        onChange={(e) => handleValueAddChange({ [field.key]: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Post-Rehab Rents */}
+              <div>
+                <label className={labelClass}>Post-Rehab Rents ($/mo)</label>
+                <div className={`grid grid-cols-2 gap-3 ${isPdfMode ? 'gap-x-8 gap-y-1' : ''} print:gap-x-8 print:gap-y-1`}>
+                  {rentRoll.map(unit => (
+                    <div key={unit.id} className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                      <label className="text-[10px] text-gray-500 font-bold mb-0.5 block">{unit.label}</label>
+                      {isPdfMode ? (
+                        <span className={pdfValueClass}>{postRehabRent(valueAdd, unit)}</span>
+                      ) : (
+                        <input
+                          type="number"
+                          min="0"
+                          step="25"
+                          value={postRehabRent(valueAdd, unit)}
+                          onChange={(e) => handleValueAddChange({
+                            postRehabRents: { ...valueAdd.postRehabRents, [unit.id]: parseFloat(e.target.value) || 0 },
+                          })}
+                          className={inputClass}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+        )}
+
+        {/* Exit Assumptions */}
+        <div className="print:break-inside-avoid">
+          <h4 className={sectionHeaderClass}>
+            <svg className={`w-4 h-4 mr-2 ${isPdfMode ? 'hidden' : ''} print:hidden`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6"></path></svg>
+            Exit Assumptions
+          </h4>
+          <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Sale Price Basis</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>{exitAssumptions.exitValuationMethod === 'CAP_RATE' ? 'Exit Cap' : 'Appreciation'}</span>
+              ) : (
+                <select
+                  value={exitAssumptions.exitValuationMethod}
+                  onChange={(e) => onParamsChange({ ...params, exitValuationMethod: e.target.value as FinancialParams['exitValuationMethod'] })}
+                  className={`${inputClass} appearance-none`}
+                >
+                  <option value="APPRECIATION">Appreciation</option>
+                  <option value="CAP_RATE">Exit Cap Rate</option>
+                </select>
+              )}
+            </div>
+            {exitAssumptions.exitValuationMethod === 'CAP_RATE' && (
+              <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+                <label className={labelClass}>Exit Cap Rate (%)</label>
+                {isPdfMode ? (
+                  <span className={pdfValueClass}>{exitAssumptions.exitCapRatePercent.toFixed(2)}</span>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    value={Number(exitAssumptions.exitCapRatePercent.toFixed(2))}
+                    onChange={(e) => handleParamChange('exitCapRatePercent', parseFloat(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                )}
+              </div>
+            )}
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Selling Costs (%)</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>{exitAssumptions.sellingCostsPercent}</span>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  max="20"
+                  step="0.5"
+                  value={exitAssumptions.sellingCostsPercent}
+                  onChange={(e) => handleParamChange('sellingCostsPercent', parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              )}
+            </div>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Discount Rate (%)</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>{exitAssumptions.discountRatePercent}</span>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={exitAssumptions.discountRatePercent}
+                  onChange={(e) => handleParamChange('discountRatePercent', parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Tax Assumptions */}
+        <div className="print:break-inside-avoid">
+          <h4 className={sectionHeaderClass}>
+            <svg className={`w-4 h-4 mr-2 ${isPdfMode ? 'hidden' : ''} print:hidden`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z"></path></svg>
+            Tax Assumptions
+          </h4>
+          <div className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${isPdfMode ? 'grid-cols-2 gap-x-8 gap-y-1' : ''} print:grid-cols-2 print:gap-x-8 print:gap-y-1`}>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Land Value (%)</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>{taxAssumptions.landValuePercent}</span>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={taxAssumptions.landValuePercent}
+                  onChange={(e) => handleParamChange('landValuePercent', Math.min(100, parseFloat(e.target.value) || 0))}
+                  className={inputClass}
+                />
+              )}
+            </div>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Depreciation</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>
+                  {taxAssumptions.depreciationSchedule === 'COMMERCIAL' ? 'Commercial (39 yr)' : 'Residential (27.5 yr)'}
+                </span>
+              ) : (
+                <select
+                  value={taxAssumptions.depreciationSchedule}
+                  onChange={(e) => onParamsChange({ ...params, depreciationSchedule: e.target.value as DepreciationSchedule })}
+                  className={`${inputClass} appearance-none`}
+                >
+                  <option value="RESIDENTIAL">Residential (27.5 yr)</option>
+                  <option value="COMMERCIAL">Commercial (39 yr)</option>
+                </select>
+              )}
+            </div>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Cost Seg. (% of Bldg)</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>{taxAssumptions.costSegregationPercent}</span>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={taxAssumptions.costSegregationPercent}
+                  onChange={(e) => handleParamChange('costSegregationPercent', Math.min(100, parseFloat(e.target.value) || 0))}
+                  className={inputClass}
+                  title="Share of the building basis a cost segregation study reclassifies as 5-year property"
+                />
+              )}
+            </div>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Bonus Depr. (%)</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>{taxAssumptions.bonusDepreciationPercent}</span>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="20"
+                  value={taxAssumptions.bonusDepreciationPercent}
+                  onChange={(e) => handleParamChange('bonusDepreciationPercent', Math.min(100, parseFloat(e.target.value) || 0))}
+                  className={inputClass}
+                  title="Share of the reclassified property expensed in year one"
+                />
+              )}
+            </div>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={labelClass}>Marginal Tax Rate (%)</label>
+              {isPdfMode ? (
+                <span className={pdfValueClass}>{taxAssumptions.marginalTaxRatePercent}</span>
+              ) : (
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={taxAssumptions.marginalTaxRatePercent}
+                  onChange={(e) => handleParamChange('marginalTaxRatePercent', Math.min(100, parseFloat(e.target.value) || 0))}
+                  className={inputClass}
+                />
+              )}
+            </div>
+            <div className={`${isPdfMode ? 'flex justify-between items-center' : ''} print:flex print:justify-between print:items-center`}>
+              <label className={`flex items-center gap-2 ${labelClass}`}>
+                {!isPdfMode && (
+                  <input
+                    type="checkbox"
+                    checked={taxAssumptions.deductMortgageInterest}
+                    onChange={(e) => onParamsChange({ ...params, deductMortgageInterest: e.target.checked })}
+                    className="print:hidden"
+                  />
+                )}
+                Deduct Mortgage Interest
+              </label>
+              {isPdfMode && (
+                <span className={pdfValueClass}>{taxAssumptions.deductMortgageInterest ? 'Yes' : 'No'}</span>
+              )}
+            </div>
+          </div>
+        </div>
+
       </div>
     </div>
   );
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { PropertyData, FinancialParams, GoalSeekMetric, GoalSeekVariable } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import {
+  GOAL_SEEK_METRICS,
+  applyGoalVariable,
+  currentGoalVariable,
+  goalSeekVariablesFor,
+  solveForTarget,
+} from '../utils/solver';
+
+interface GoalSeekPanelProps {
+  property: PropertyData;
+  params: FinancialParams;
+  onPropertyChange: (p: PropertyData) => void;
+  onParamsChange: (p: FinancialParams) => void;
+  isPdfMode?: boolean;
+}
+
+const DEFAULT_TARGETS: Record<GoalSeekMetric, number> = {
+  capRate: 7,
+  cashOnCashReturn: 8,
+  monthlyCashFlow: 500,
+  dscr: 1.25,
+};
+
+const formatMetric = (metric: GoalSeekMetric, value: number) => {
+  if (!isFinite(value)) return '∞';
+  const unit = GOAL_SEEK_METRICS.find(m => m.key === metric)?.unit;
+  if (unit === '$') return formatCurrency(value);
+  if (unit === 'x') return `${value.toFixed(2)}x`;
+  return `${value.toFixed(2)}%`;
+};
+
+const formatVariable = (variable: GoalSeekVariable, value: number) =>
+  variable === 'interestRate' ? `${value.toFixed(2)}%` : formatCurrency(value);
+
+export const GoalSeekPanel: React.FC<GoalSeekPanelProps> = ({
+  property,
+  params,
+  onPropertyChange,
+  onParamsChange,
+  isPdfMode = false,
+}) => {
+  const [metric, setMetric] = useState<GoalSeekMetric>('cashOnCashReturn');
+  const [target, setTarget] = useState(DEFAULT_TARGETS.cashOnCashReturn);
+  const [variable, setVariable] = useState<GoalSeekVariable>('listPrice');
+
+  const result = useMemo(
+    () => solveForTarget(property, params, metric, target, variable),
+    [property, params, metric, target, variable]
+  );
+  const current = currentGoalVariable(variable, property, params);
+  const variables = goalSeekVariablesFor(property);
+
+  const handleMetricChange = (next: GoalSeekMetric) => {
+    setMetric(next);
+    setTarget(DEFAULT_TARGETS[next]);
+  };
+
+  const handleApply = () => {
+    if (result.value === null) return;
+    const [nextProperty, nextParams] = applyGoalVariable(variable, result.value, property, params);
+    if (nextProperty !== property) onPropertyChange(nextProperty);
+    if (nextParams !== params) onParamsChange(nextParams);
+  };
+
+  const inputClass = `
+    w-full px-3 py-2 border border-blue-200 rounded-lg
+    focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow
+    bg-blue-50 text-gray-900 font-medium text-sm
+  `;
+  const labelClass = 'block text-xs font-bold text-gray-600 mb-1 uppercase tracking-wide';
+
+  // An interactive tool only, nothing to export
+  if (isPdfMode) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:hidden">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">Goal Seek</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Target</label>
+          <select
+            value={metric}
+            onChange={(e) => handleMetricChange(e.target.value as GoalSeekMetric)}
+            className={`${inputClass} appearance-none`}
+          >
+            {GOAL_SEEK_METRICS.map(m => (
+              <option key={m.key} value={m.key}>{m.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>At Least ({GOAL_SEEK_METRICS.find(m => m.key === metric)?.unit})</label>
+          <input
+            type="number"
+            step={metric === 'dscr' ? '0.05' : metric === 'monthlyCashFlow' ? '50' : '0.25'}
+            value={target}
+            onChange={(e) => setTarget(parseFloat(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Solve For</label>
+          <select
+            value={variable}
+            onChange={(e) => setVariable(e.target.value as GoalSeekVariable)}
+            className={`${inputClass} appearance-none`}
+          >
+            {variables.map(v => (
+              <option key={v.key} value={v.key}>{v.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-4 p-4 bg-gray-50 rounded-lg flex flex-col md:flex-row md:items-center justify-between gap-4">
+        {result.value === null ? (
+          <p className="text-sm text-red-600">
+            No {variables.find(v => v.key === variable)?.label.toLowerCase()} reaches this target
+            with the other inputs unchanged.
+          </p>
+        ) : (
+          <div>
+            <div className="text-2xl font-bold text-gray-900">
+              {result.capped && '≥ '}{formatVariable(variable, result.value)}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              Currently {formatVariable(variable, current)} · gives {formatMetric(metric, result.achieved)}
+            </div>
+          </div>
+        )}
+        <button
+          onClick={handleApply}
+          disabled={result.value === null || result.value === current}
+          className="px-4 py-2 text-sm font-medium text-white bg-brand-600 hover:bg-brand-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Apply to Inputs
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React from 'react';
+import { InvestmentMemo, MemoFact, MemoRecommendation } from '../types';
+import { MEMO_RECOMMENDATIONS, changedMemoFacts, verifyMemoNumbers } from '../services/memoService';
+
+interface MemoPanelProps {
+  memo?: InvestmentMemo;
+  currentFacts: MemoFact[] | null; // Figures of the scenario the memo was written for, null once it is deleted
+  activeScenarioName?: string; // Named on the generate button when there are several scenarios
+  generating: boolean;
+  error: string | null;
+  canGenerate: boolean;
+  onGenerate: () => void;
+  onCancel: () => void;
+  onChange: (memo: InvestmentMemo | undefined) => void;
+  isPdfMode?: boolean;
+}
+
+const RECOMMENDATION_STYLES: Record<MemoRecommendation, string> = {
+  BUY: 'bg-green-100 text-green-800',
+  NEGOTIATE: 'bg-amber-100 text-amber-800',
+  PASS: 'bg-red-100 text-red-800',
+};
+
+const textareaClass = 'w-full p-2 text-sm text-gray-700 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none resize-y';
+
+// AI-written investment memo. Every section is editable; the PDF shows it as plain text.
+export const MemoPanel: React.FC<MemoPanelProps> = ({
+  memo,
+  currentFacts,
+  activeScenarioName,
+  generating,
+  error,
+  canGenerate,
+  onGenerate,
+  onCancel,
+  onChange,
+  isPdfMode = false,
+}) => {
+  if (isPdfMode && !memo) return null;
+
+  const update = (changes: Partial<InvestmentMemo>) => {
+    if (memo) onChange(verifyMemoNumbers({ ...memo, ...changes }));
+  };
+
+  const handleDiscard = () => {
+    if (window.confirm("Delete this memo? Any edits to it will be lost.")) onChange(undefined);
+  };
+
+  const changed = memo && currentFacts ? changedMemoFacts(memo, currentFacts) : [];
+  const risks = memo ? memo.risks.filter(r => r.trim()) : [];
+
+  const section = (title: string, content: React.ReactNode) => (
+    <div className="mb-4 print:mb-2">
+      <h4 className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-1">{title}</h4>
+      {content}
+    </div>
+  );
+
+  const prose = (value: string, onEdit: (value: string) => void, rows = 3) => isPdfMode
+    ? <p className="text-sm text-gray-700 whitespace-pre-line">{value}</p>
+    : <textarea value={value} onChange={(e) => onEdit(e.target.value)} rows={rows} className={textareaClass} />;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <div className="flex justify-between items-center gap-4 mb-4 print:mb-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 print:text-base">Investment Memo</h3>
+          {memo && (
+            <p className="text-xs text-gray-400 print:text-gray-500">
+              Written by {memo.model} on {new Date(memo.generatedAt).toLocaleDateString()} from the "{memo.scenarioName}" scenario
+            </p>
+          )}
+        </div>
+        {!isPdfMode && (
+          <div className="flex items-center gap-2 print:hidden">
+            {generating ? (
+              <>
+                <span className="text-xs text-gray-500 animate-pulse">Writing memo…</span>
+                <button onClick={onCancel} className="px-3 py-1.5 text-xs font-medium text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50">
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                {memo && (
+                  <button onClick={handleDiscard} className="px-3 py-1.5 text-xs font-medium text-gray-500 hover:text-red-600">
+                    Delete
+                  </button>
+                )}
+                <button
+                  onClick={onGenerate}
+                  disabled={!canGenerate}
+                  title={canGenerate ? undefined : 'Choose an AI provider to generate a memo'}
+                  className="px-3 py-1.5 text-xs font-bold text-white bg-brand-600 rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {memo ? 'Regenerate memo' : 'Generate memo'}{activeScenarioName ? ` for "${activeScenarioName}"` : ''}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && !isPdfMode && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-700 text-sm rounded-lg print:hidden">{error}</div>
+      )}
+
+      {!memo && !isPdfMode && (
+        <p className="text-sm text-gray-500">
+          Summarise this deal as a memo: thesis, key metrics, risks, comp commentary and a recommendation.
+          The AI is given the figures computed here and told to quote only those.
+        </p>
+      )}
+
+      {memo && (
+        <>
+          {memo.unverifiedNumbers.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg">
+              These figures don't match any number in the analysis and should be checked: {memo.unverifiedNumbers.join(', ')}
+            </div>
+          )}
+          {currentFacts === null ? (
+            <div className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg">
+              The "{memo.scenarioName}" scenario this memo was written from has been deleted.
+            </div>
+          ) : changed.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg">
+              The analysis has changed since this memo was written ({changed.map(f => f.label).join(', ')}). Regenerate it to quote the current figures.
+            </div>
+          )}
+
+          <div className="mb-4 flex items-center gap-3 print:mb-2">
+            <span className="text-xs font-bold text-gray-600 uppercase tracking-wide">Recommendation</span>
+            {isPdfMode ? (
+              <span className={`px-3 py-1 text-xs font-bold rounded-full ${RECOMMENDATION_STYLES[memo.recommendation]}`}>
+                {MEMO_RECOMMENDATIONS.find(r => r.value === memo.recommendation)?.label}
+              </span>
+            ) : (
+              <select
+                value={memo.recommendation}
+                onChange={(e) => update({ recommendation: e.target.value as MemoRecommendation })}
+                className={`px-3 py-1 text-xs font-bold rounded-full border-0 outline-none ${RECOMMENDATION_STYLES[memo.recommendation]}`}
+              >
+                {MEMO_RECOMMENDATIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+              </select>
+            )}
+          </div>
+
+          {section('Thesis', prose(memo.thesis, thesis => update({ thesis })))}
+
+          {memo.keyMetrics.length > 0 && section('Key Metrics', (
+            <ul className="space-y-2">
+              {memo.keyMetrics.map((metric, i) => {
+                const fact = memo.facts.find(f => f.key === metric.key);
+                return (
+                  <li key={`${metric.key}-${i}`} className="text-sm">
+                    <span className="font-semibold text-gray-900">{fact?.label}: {fact?.value}</span>
+                    {prose(metric.commentary, commentary => update({
+                      keyMetrics: memo.keyMetrics.map((m, j) => j === i ? { ...m, commentary } : m),
+                    }), 1)}
+                  </li>
+                );
+              })}
+            </ul>
+          ))}
+
+          {section('Risks', isPdfMode ? (
+            <ul className="list-disc list-inside text-sm text-gray-700 space-y-0.5">
+              {risks.map((risk, i) => <li key={i}>{risk}</li>)}
+            </ul>
+          ) : (
+            <>
+              <textarea
+                value={memo.risks.join('\n')}
+                onChange={(e) => update({ risks: e.target.value.split('\n') })}
+                rows={Math.max(3, memo.risks.length)}
+                className={textareaClass}
+              />
+              <p className="text-[10px] text-gray-400 mt-0.5">One risk per line</p>
+            </>
+          ))}
+
+          {section('Comp Commentary', prose(memo.compCommentary, compCommentary => update({ compCommentary })))}
+
+          {section('Rationale', prose(memo.recommendationRationale, recommendationRationale => update({ recommendationRationale }), 2))}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { SavedAnalysis } from '../types';
+import { formatCurrency, formatPercent, formatAxisCurrency } from '../utils/calculations';
+import { downloadFile, exportElementToPdf } from '../utils/export';
+import { portfolioToCsv, summarizePortfolio } from '../utils/portfolio';
+import { MetricCard } from './MetricCard';
+import {
+  PieChart,
+  Pie,
+  Cell,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  Legend,
+} from 'recharts';
+
+const HOLDING_COLORS = ['#0ea5e9', '#6366f1', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#14b8a6', '#f97316'];
+
+interface PortfolioDashboardProps {
+  analyses: SavedAnalysis[]; // Owned analyses only
+  onOpen: (analysis: SavedAnalysis) => void;
+}
+
+export const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ analyses, onOpen }) => {
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+  const summary = useMemo(() => summarizePortfolio(analyses), [analyses]);
+
+  const chartData = summary.holdings.map((h, index) => ({
+    name: h.address.split(',')[0],
+    income: h.effectiveGrossIncome,
+    noi: h.noi,
+    cashFlow: h.annualCashFlow,
+    color: HOLDING_COLORS[index % HOLDING_COLORS.length],
+  }));
+
+  const handleExportCsv = () => {
+    downloadFile(portfolioToCsv(summary), `Portfolio_${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
+  };
+
+  const handleExportPdf = () => {
+    setGeneratingPdf(true);
+
+    // Wait for the export buttons to drop out of the layout
+    setTimeout(async () => {
+      try {
+        const element = document.getElementById('portfolio-container');
+        if (!element) throw new Error("Portfolio not found");
+        await exportElementToPdf(element, `Portfolio_${new Date().toISOString().slice(0, 10)}.pdf`);
+      } catch (err) {
+        console.error("PDF Generation failed", err);
+      } finally {
+        setGeneratingPdf(false);
+      }
+    }, 500);
+  };
+
+  return (
+    <div
+      id="portfolio-container"
+      className={`w-full max-w-5xl mb-10 animate-fade-in-up ${generatingPdf ? 'bg-white p-6 max-w-none w-[1000px]' : ''}`}
+    >
+      <div className="flex justify-between items-end mb-4 border-b pb-2">
+        <div>
+          <h3 className="text-gray-500 font-bold text-xs uppercase tracking-wider">Portfolio</h3>
+          <p className="text-xs text-gray-400 mt-1">
+            {summary.holdings.length} owned {summary.holdings.length === 1 ? 'property' : 'properties'}, valued at purchase price with original loan amounts
+          </p>
+        </div>
+        {!generatingPdf && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleExportCsv}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 rounded-lg transition-colors border border-gray-200"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={handleExportPdf}
+              className="px-3 py-1.5 text-xs font-medium text-brand-700 bg-brand-50 hover:bg-brand-100 rounded-lg transition-colors border border-brand-200"
+            >
+              Save PDF
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <MetricCard
+          label="Combined NOI"
+          value={formatCurrency(summary.totalNoi)}
+          subValue="Annual"
+          highlight
+        />
+        <MetricCard
+          label="Monthly Cash Flow"
+          value={formatCurrency(summary.monthlyCashFlow)}
+          tooltip="Combined cash flow after operating expenses and debt service on every owned property."
+          trend={summary.monthlyCashFlow >= 0 ? 'positive' : 'negative'}
+        />
+        <MetricCard
+          label="Weighted Cap Rate"
+          value={formatPercent(summary.weightedCapRate)}
+          tooltip="Combined NOI divided by combined value, so larger properties count for more."
+        />
+        <MetricCard
+          label="Portfolio DSCR"
+          value={summary.totalDebtService > 0 ? `${summary.dscr.toFixed(2)}x` : 'No debt'}
+          tooltip="Combined NOI divided by combined annual debt service."
+          trend={summary.totalDebtService === 0 || summary.dscr >= 1.25 ? 'positive' : 'negative'}
+        />
+        <MetricCard label="Total Value" value={formatCurrency(summary.totalValue)} />
+        <MetricCard label="Total Debt" value={formatCurrency(summary.totalDebt)} />
+        <MetricCard label="Total Equity" value={formatCurrency(summary.totalEquity)} />
+        <MetricCard
+          label="Leverage"
+          value={formatPercent(summary.leverage)}
+          subValue="Loan-to-value"
+          tooltip="Combined debt divided by combined value."
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">Share of Income</h4>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={chartData} innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="income" nameKey="name">
+                  {chartData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.color} />
+                  ))}
+                </Pie>
+                <RechartsTooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend wrapperStyle={{ fontSize: '10px' }} />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">NOI &amp; Cash Flow by Property</h4>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                <XAxis dataKey="name" tick={{ fontSize: 9 }} />
+                <YAxis tickFormatter={formatAxisCurrency} tick={{ fontSize: 10 }} width={50} />
+                <RechartsTooltip formatter={(value: number) => formatCurrency(value)} />
+                <Legend wrapperStyle={{ fontSize: '10px' }} />
+                <Bar dataKey="noi" name="NOI" fill="#0ea5e9" />
+                <Bar dataKey="cashFlow" name="Cash Flow" fill="#10b981" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-500">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+            <tr>
+              <th className="px-4 py-3">Property</th>
+              <th className="px-4 py-3 text-right">Value</th>
+              <th className="px-4 py-3 text-right">Debt</th>
+              <th className="px-4 py-3 text-right">NOI</th>
+              <th className="px-4 py-3 text-right">Cash Flow/mo</th>
+              <th className="px-4 py-3 text-right">Cap Rate</th>
+              <th className="px-4 py-3 text-right">Income Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.holdings.map(h => (
+              <tr
+                key={h.analysisId}
+                onClick={() => {
+                  const analysis = analyses.find(a => a.id === h.analysisId);
+                  if (analysis) onOpen(analysis);
+                }}
+                className="border-b hover:bg-gray-50 cursor-pointer"
+              >
+                <td className="px-4 py-2 font-medium text-gray-900">
+                  {h.address}
+                  <span className="block text-[10px] text-gray-400 font-normal">{h.scenarioName}</span>
+                </td>
+                <td className="px-4 py-2 text-right">{formatCurrency(h.value)}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(h.debt)}</td>
+                <td className="px-4 py-2 text-right">{formatCurrency(h.noi)}</td>
+                <td className={`px-4 py-2 text-right ${h.annualCashFlow < 0 ? 'text-red-600' : ''}`}>{formatCurrency(h.annualCashFlow / 12)}</td>
+                <td className="px-4 py-2 text-right">{formatPercent(h.capRate)}</td>
+                <td className="px-4 py-2 text-right">{formatPercent(h.incomeShare)}</td>
+              </tr>
+            ))}
+            <tr className="font-bold text-gray-900 bg-gray-50">
+              <td className="px-4 py-2">Total</td>
+              <td className="px-4 py-2 text-right">{formatCurrency(summary.totalValue)}</td>
+              <td className="px-4 py-2 text-right">{formatCurrency(summary.totalDebt)}</td>
+              <td className="px-4 py-2 text-right">{formatCurrency(summary.totalNoi)}</td>
+              <td className="px-4 py-2 text-right">{formatCurrency(summary.monthlyCashFlow)}</td>
+              <td className="px-4 py-2 text-right">{formatPercent(summary.weightedCapRate)}</td>
+              <td className="px-4 py-2 text-right">{formatPercent(100)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
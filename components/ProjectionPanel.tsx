@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { PropertyData, FinancialParams } from '../types';
+import { formatCurrency, formatAxisCurrency } from '../utils/calculations';
+import { projectCashFlows, resolveProjectionAssumptions, MAX_HOLD_PERIOD_YEARS } from '../utils/projections';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  Legend,
+} from 'recharts';
+
+interface ProjectionPanelProps {
+  property: PropertyData;
+  params: FinancialParams;
+  onParamsChange: (p: FinancialParams) => void;
+  isPdfMode?: boolean;
+}
+
+export const ProjectionPanel: React.FC<ProjectionPanelProps> = ({
+  property,
+  params,
+  onParamsChange,
+  isPdfMode = false,
+}) => {
+  const assumptions = resolveProjectionAssumptions(params);
+  const projection = useMemo(() => projectCashFlows(property, params), [property, params]);
+  const hasPrepayments = projection.some(row => row.prepayments > 0);
+
+  const handleAssumptionChange = (key: keyof typeof assumptions, value: number) => {
+    onParamsChange({ ...params, [key]: value });
+  };
+
+  const inputClass = `
+    w-full px-3 py-2 border border-blue-200 rounded-lg
+    focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow
+    bg-blue-50 text-gray-900 font-medium
+    print:hidden
+  `;
+  const labelClass = 'block text-xs font-bold text-gray-600 mb-1 uppercase tracking-wide print:text-gray-500 print:mb-0';
+  const cellClass = 'px-3 py-2 text-right whitespace-nowrap print:px-1 print:py-0.5';
+
+  const assumptionFields: { key: keyof typeof assumptions; label: string; step: string; min: number; max?: number }[] = [
+    { key: 'rentGrowthPercent', label: 'Rent Growth (%/yr)', step: '0.5', min: -10 },
+    { key: 'expenseGrowthPercent', label: 'Expense Inflation (%/yr)', step: '0.5', min: -10 },
+    { key: 'appreciationPercent', label: 'Appreciation (%/yr)', step: '0.5', min: -10 },
+    { key: 'holdPeriodYears', label: 'Hold Period (Years)', step: '1', min: 1, max: MAX_HOLD_PERIOD_YEARS },
+  ];
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 print:text-base print:mb-2">Pro Forma Projection</h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 print:gap-2 print:mb-3">
+        {assumptionFields.map((field) => (
+          <div key={field.key}>
+            <label className={labelClass}>{field.label}</label>
+            {isPdfMode ? (
+              <span className="font-bold text-black">{assumptions[field.key]}</span>
+            ) : (
+              <input
+                type="number"
+                step={field.step}
+                min={field.min}
+                max={field.max}
+                value={assumptions[field.key]}
+                onChange={(e) => handleAssumptionChange(field.key, parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="w-full h-72 print:h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={projection} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="year" tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={formatAxisCurrency} tick={{ fontSize: 11 }} width={60} />
+            <RechartsTooltip
+              formatter={(value: number) => formatCurrency(value)}
+              labelFormatter={(label) => `Year ${label}`}
+            />
+            <Legend wrapperStyle={{ fontSize: '10px' }} />
+            <Bar dataKey="cashFlow" name="Cash Flow" fill="#0ea5e9" />
+            <Line type="monotone" dataKey="noi" name="NOI" stroke="#64748b" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="equity" name="Equity" stroke="#16a34a" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className={`mt-6 overflow-x-auto ${isPdfMode ? 'overflow-visible' : ''} print:overflow-visible print:mt-3`}>
+        <table className="w-full text-sm text-gray-500 print:text-xs">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 print:bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left print:px-1 print:py-0.5">Year</th>
+              <th className={cellClass}>Income</th>
+              <th className={cellClass}>OpEx</th>
+              <th className={cellClass}>NOI</th>
+              <th className={cellClass}>Debt Service</th>
+              <th className={cellClass}>Cash Flow</th>
+              {hasPrepayments && <th className={cellClass}>Prepayments</th>}
+              <th className={cellClass}>Loan Balance</th>
+              <th className={cellClass}>Equity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {projection.map((row) => (
+              <tr key={row.year} className="border-b hover:bg-gray-50">
+                <td className="px-3 py-2 font-medium text-gray-900 print:px-1 print:py-0.5">{row.year}</td>
+                <td className={cellClass}>{formatCurrency(row.effectiveGrossIncome)}</td>
+                <td className={cellClass}>{formatCurrency(row.operatingExpenses)}</td>
+                <td className={cellClass}>{formatCurrency(row.noi)}</td>
+                <td className={cellClass}>{formatCurrency(row.debtService)}</td>
+                <td className={`${cellClass} font-medium ${row.cashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(row.cashFlow)}
+                </td>
+                {hasPrepayments && <td className={cellClass}>{formatCurrency(row.prepayments)}</td>}
+                <td className={cellClass}>{formatCurrency(row.loanBalance)}</td>
+                <td className={`${cellClass} text-gray-900`}>{formatCurrency(row.equity)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
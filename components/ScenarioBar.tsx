@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Scenario } from '../types';
+import { cloneScenario } from '../utils/scenarios';
+
+interface ScenarioBarProps {
+  scenarios: Scenario[];
+  activeScenarioId: string;
+  onScenariosChange: (scenarios: Scenario[], activeScenarioId: string) => void;
+  showComparison: boolean;
+  onToggleComparison: () => void;
+}
+
+export const ScenarioBar: React.FC<ScenarioBarProps> = ({
+  scenarios,
+  activeScenarioId,
+  onScenariosChange,
+  showComparison,
+  onToggleComparison,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const active = scenarios.find(s => s.id === activeScenarioId) ?? scenarios[0];
+
+  const startRename = (scenario: Scenario) => {
+    setRenamingId(scenario.id);
+    setDraftName(scenario.name);
+  };
+
+  const finishRename = () => {
+    const name = draftName.trim();
+    if (renamingId && name) {
+      onScenariosChange(scenarios.map(s => s.id === renamingId ? { ...s, name } : s), activeScenarioId);
+    }
+    setRenamingId(null);
+  };
+
+  const handleClone = () => {
+    const copy = cloneScenario(active, scenarios);
+    const index = scenarios.findIndex(s => s.id === active.id);
+    onScenariosChange([...scenarios.slice(0, index + 1), copy, ...scenarios.slice(index + 1)], copy.id);
+  };
+
+  const handleDelete = () => {
+    if (scenarios.length <= 1) return;
+    if (!window.confirm(`Delete the "${active.name}" scenario?`)) return;
+    const index = scenarios.findIndex(s => s.id === active.id);
+    const remaining = scenarios.filter(s => s.id !== active.id);
+    onScenariosChange(remaining, remaining[Math.max(0, index - 1)].id);
+  };
+
+  const actionClass = 'text-xs font-medium text-gray-500 hover:text-brand-700 px-2 py-1 rounded hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500';
+
+  return (
+    <div className="bg-white border border-gray-100 rounded-xl shadow-sm p-3 mb-6 flex flex-wrap items-center gap-2 no-print print:hidden">
+      <span className="text-xs font-bold text-gray-400 uppercase tracking-wider mr-1">Scenarios</span>
+      {scenarios.map(scenario => (
+        renamingId === scenario.id ? (
+          <input
+            key={scenario.id}
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={finishRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishRename();
+              if (e.key === 'Escape') setRenamingId(null);
+            }}
+            className="px-3 py-1.5 text-sm border border-brand-300 rounded-full focus:ring-2 focus:ring-brand-500 focus:outline-none w-40"
+          />
+        ) : (
+          <button
+            key={scenario.id}
+            onClick={() => onScenariosChange(scenarios, scenario.id)}
+            onDoubleClick={() => startRename(scenario)}
+            title="Double-click to rename"
+            className={`px-3 py-1.5 text-sm font-medium rounded-full border transition-colors ${scenario.id === active.id ? 'bg-brand-50 border-brand-200 text-brand-700' : 'bg-white border-gray-200 text-gray-600 hover:text-gray-900'}`}
+          >
+            {scenario.name}
+          </button>
+        )
+      ))}
+
+      <div className="flex items-center gap-1 ml-auto">
+        <button onClick={handleClone} className={actionClass}>Clone</button>
+        <button onClick={() => startRename(active)} className={actionClass}>Rename</button>
+        <button onClick={handleDelete} disabled={scenarios.length <= 1} className={actionClass}>Delete</button>
+        <button
+          onClick={onToggleComparison}
+          disabled={scenarios.length <= 1}
+          className={`${actionClass} ${showComparison ? 'text-brand-700 bg-brand-50' : ''}`}
+        >
+          {showComparison ? 'Hide Comparison' : 'Compare'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useMemo, useState } from 'react';
+import { Scenario } from '../types';
+import { compareScenarios, formatComparisonValue } from '../utils/scenarios';
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[];
+  activeScenarioId?: string;
+  isPdfMode?: boolean;
+}
+
+export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({
+  scenarios,
+  activeScenarioId,
+  isPdfMode = false,
+}) => {
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const rows = useMemo(() => compareScenarios(scenarios), [scenarios]);
+  const visibleRows = differencesOnly && !isPdfMode ? rows.filter(row => row.differs) : rows;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 mb-6 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <div className="flex justify-between items-center mb-4 print:mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 print:text-base">Scenario Comparison</h3>
+        {!isPdfMode && (
+          <label className="flex items-center gap-2 text-xs text-gray-500 print:hidden">
+            <input type="checkbox" checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} />
+            Differences only
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mb-3 print:mb-2">
+        Changes are measured against {scenarios[0]?.name}. Highlighted cells differ from it.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-gray-600 print:text-xs">
+          <thead className="text-xs text-gray-700 uppercase bg-gray-50 print:bg-gray-100">
+            <tr>
+              <th className="px-4 py-3 print:px-2 print:py-1">Metric</th>
+              {scenarios.map(scenario => (
+                <th
+                  key={scenario.id}
+                  className={`px-4 py-3 text-right print:px-2 print:py-1 ${scenario.id === activeScenarioId ? 'text-brand-700' : ''}`}
+                >
+                  {scenario.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => (
+              <tr key={row.key} className="border-b">
+                <td className={`px-4 py-2 print:px-2 print:py-1 ${row.differs ? 'font-semibold text-gray-900' : ''}`}>{row.label}</td>
+                {row.values.map((value, i) => {
+                  const delta = row.deltas[i];
+                  const changed = i > 0 && Math.abs(delta) > 0.005;
+                  const improved = row.higherIsBetter === undefined ? null : (delta > 0) === row.higherIsBetter;
+                  return (
+                    <td key={scenarios[i].id} className={`px-4 py-2 text-right print:px-2 print:py-1 ${changed ? 'bg-amber-50' : ''}`}>
+                      <div className={changed ? 'font-semibold text-gray-900' : ''}>{formatComparisonValue(value, row.format)}</div>
+                      {changed && (
+                        <div className={`text-[10px] ${improved === null ? 'text-gray-500' : improved ? 'text-green-600' : 'text-red-600'}`}>
+                          {delta > 0 ? '+' : '−'}{formatComparisonValue(Math.abs(delta), row.format)}
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
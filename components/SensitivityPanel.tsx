@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { PropertyData, FinancialParams } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import {
+  SENSITIVITY_OUTPUTS,
+  buildSensitivityGrid,
+  findSensitivityInput,
+  findSensitivityOutput,
+  sensitivityInputsFor,
+} from '../utils/sensitivity';
+
+interface SensitivityPanelProps {
+  property: PropertyData;
+  params: FinancialParams;
+  isPdfMode?: boolean;
+}
+
+const formatValue = (value: number, format: 'currency' | 'percent' | 'ratio' | 'number') => {
+  if (format === 'currency') return formatCurrency(value);
+  if (format === 'percent') return formatPercent(value);
+  if (format === 'ratio') return `${value.toFixed(2)}x`;
+  return value.toLocaleString('en-US');
+};
+
+export const SensitivityPanel: React.FC<SensitivityPanelProps> = ({
+  property,
+  params,
+  isPdfMode = false,
+}) => {
+  const [rowId, setRowId] = useState('listPrice');
+  const [colId, setColId] = useState('interestRate');
+  const [outputKey, setOutputKey] = useState<string>('cashOnCashReturn');
+  const [rowStep, setRowStep] = useState<number | null>(null);
+  const [colStep, setColStep] = useState<number | null>(null);
+  const [threshold, setThreshold] = useState<number | null>(null);
+
+  const inputs = sensitivityInputsFor(property);
+  const rowInput = findSensitivityInput(rowId, property);
+  const colInput = findSensitivityInput(colId, property);
+  const output = findSensitivityOutput(outputKey);
+  const effectiveRowStep = rowStep ?? rowInput.step;
+  const effectiveColStep = colStep ?? colInput.step;
+
+  const grid = useMemo(
+    () => buildSensitivityGrid(property, params, rowInput, colInput, output, effectiveRowStep, effectiveColStep),
+    [property, params, rowInput, colInput, output, effectiveRowStep, effectiveColStep]
+  );
+
+  // Until the user sets one, judge every cell against the deal as currently entered
+  const effectiveThreshold = threshold ?? Number(grid.baseValue.toFixed(2));
+  const baseRow = rowInput.getValue(property, params);
+  const baseCol = colInput.getValue(property, params);
+
+  const cellClass = (value: number) => {
+    const passes = output.higherIsBetter ? value >= effectiveThreshold : value <= effectiveThreshold;
+    return passes ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700';
+  };
+
+  const inputClass = `
+    w-full px-3 py-2 border border-blue-200 rounded-lg
+    focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow
+    bg-blue-50 text-gray-900 font-medium text-sm
+    print:hidden
+  `;
+  const labelClass = 'block text-xs font-bold text-gray-600 mb-1 uppercase tracking-wide print:text-gray-500 print:mb-0';
+
+  const handleRowChange = (id: string) => {
+    setRowId(id);
+    setRowStep(null);
+  };
+
+  const handleColChange = (id: string) => {
+    setColId(id);
+    setColStep(null);
+  };
+
+  const handleOutputChange = (key: string) => {
+    setOutputKey(key);
+    setThreshold(null);
+  };
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 print:text-base print:mb-2">Sensitivity Analysis</h3>
+
+      {isPdfMode ? (
+        <p className="text-sm text-gray-600 mb-3">
+          {output.label} by {rowInput.label} (rows) and {colInput.label} (columns).
+          Green meets the threshold of {formatValue(effectiveThreshold, output.format)}.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6 print:hidden">
+          <div>
+            <label className={labelClass}>Rows</label>
+            <select value={rowId} onChange={(e) => handleRowChange(e.target.value)} className={`${inputClass} appearance-none`}>
+              {inputs.filter(i => i.id !== colId).map(i => (
+                <option key={i.id} value={i.id}>{i.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Columns</label>
+            <select value={colId} onChange={(e) => handleColChange(e.target.value)} className={`${inputClass} appearance-none`}>
+              {inputs.filter(i => i.id !== rowId).map(i => (
+                <option key={i.id} value={i.id}>{i.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Output</label>
+            <select value={output.key} onChange={(e) => handleOutputChange(e.target.value)} className={`${inputClass} appearance-none`}>
+              {SENSITIVITY_OUTPUTS.map(o => (
+                <option key={o.key} value={o.key}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Row Step</label>
+            <input
+              type="number"
+              min="0"
+              value={effectiveRowStep}
+              onChange={(e) => setRowStep(Math.abs(parseFloat(e.target.value)) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Column Step</label>
+            <input
+              type="number"
+              min="0"
+              value={effectiveColStep}
+              onChange={(e) => setColStep(Math.abs(parseFloat(e.target.value)) || 0)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Threshold ({output.higherIsBetter ? 'min' : 'max'})</label>
+            <input
+              type="number"
+              value={effectiveThreshold}
+              onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto print:overflow-visible">
+        <table className="w-full text-sm text-center print:text-xs">
+          <thead>
+            <tr>
+              <th className="px-2 py-2 text-xs text-gray-500 text-left">
+                {rowInput.label} ↓ / {colInput.label} →
+              </th>
+              {grid.colValues.map((colValue, c) => (
+                <th
+                  key={c}
+                  className={`px-2 py-2 text-xs font-bold uppercase ${colValue === baseCol ? 'text-brand-700' : 'text-gray-700'} bg-gray-50 print:bg-gray-100`}
+                >
+                  {formatValue(colValue, colInput.format)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.rowValues.map((rowValue, r) => (
+              <tr key={r}>
+                <th className={`px-2 py-2 text-xs font-bold text-left bg-gray-50 print:bg-gray-100 ${rowValue === baseRow ? 'text-brand-700' : 'text-gray-700'}`}>
+                  {formatValue(rowValue, rowInput.format)}
+                </th>
+                {grid.cells[r].map((value, c) => (
+                  <td
+                    key={c}
+                    className={`px-2 py-2 border border-white font-medium ${cellClass(value)} ${rowValue === baseRow && grid.colValues[c] === baseCol ? 'ring-2 ring-inset ring-brand-500 font-bold' : ''}`}
+                  >
+                    {formatValue(value, output.format)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
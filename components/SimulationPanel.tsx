@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  PropertyData,
+  FinancialParams,
+  SimulationVariable,
+  SimulationResult,
+  DistributionType,
+} from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import {
+  DEFAULT_ITERATIONS,
+  defaultSimulationVariables,
+  simulationVariableLabelsFor,
+} from '../utils/simulation';
+import type { SimulationMessage, SimulationRequest } from '../utils/simulation.worker';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+} from 'recharts';
+
+interface SimulationPanelProps {
+  property: PropertyData;
+  params: FinancialParams;
+  isPdfMode?: boolean;
+}
+
+const MAX_ITERATIONS = 50000;
+
+export const SimulationPanel: React.FC<SimulationPanelProps> = ({
+  property,
+  params,
+  isPdfMode = false,
+}) => {
+  const [variables, setVariables] = useState<SimulationVariable[]>(() =>
+    defaultSimulationVariables(property, params)
+  );
+  const [iterations, setIterations] = useState(DEFAULT_ITERATIONS);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ranWith, setRanWith] = useState<{ property: PropertyData; params: FinancialParams } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Never leave a worker running after the Dashboard closes
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // Rent and vacancy mean the nightly rate and occupancy on a short-term rental, so the
+  // distributions are rebuilt when the property switches mode
+  const isShortTermRental = !!property.shortTermRental;
+  const modeRef = useRef(isShortTermRental);
+  useEffect(() => {
+    if (modeRef.current === isShortTermRental) return;
+    modeRef.current = isShortTermRental;
+    setVariables(defaultSimulationVariables(property, params));
+  }, [isShortTermRental]);
+
+  const isStale = result !== null && ranWith !== null && (ranWith.property !== property || ranWith.params !== params);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setRunning(false);
+  };
+
+  const handleRun = () => {
+    stopWorker();
+    setError(null);
+    setProgress(0);
+    setRunning(true);
+
+    const worker = new Worker(new URL('../utils/simulation.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<SimulationMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.completed);
+        return;
+      }
+      if (message.type === 'done') {
+        setResult(message.result);
+        setRanWith({ property, params });
+      } else {
+        setError(message.message);
+      }
+      stopWorker();
+    };
+    worker.onerror = (event) => {
+      console.error("Simulation worker failed", event);
+      setError("The simulation failed to run. Please try again.");
+      stopWorker();
+    };
+
+    const request: SimulationRequest = { property, params, variables, iterations };
+    worker.postMessage(request);
+  };
+
+  const updateVariable = (index: number, changes: Partial<SimulationVariable>) => {
+    setVariables(variables.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  const inputClass = `
+    w-full px-2 py-1.5 border border-blue-200 rounded-lg
+    focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow
+    bg-blue-50 text-gray-900 font-medium text-sm
+    print:hidden
+  `;
+  const numberFields: { key: 'min' | 'mode' | 'max' | 'stdDev'; label: string; types: DistributionType[] }[] = [
+    { key: 'min', label: 'Min', types: ['RANGE', 'TRIANGULAR'] },
+    { key: 'mode', label: 'Likely / Mean', types: ['TRIANGULAR', 'NORMAL'] },
+    { key: 'max', label: 'Max', types: ['RANGE', 'TRIANGULAR'] },
+    { key: 'stdDev', label: 'Std. Dev.', types: ['NORMAL'] },
+  ];
+
+  const histogramData = (result?.histogram || []).map(bin => ({
+    label: formatCurrency((bin.start + bin.end) / 2),
+    count: bin.count,
+    negative: bin.end <= 0,
+  }));
+
+  // Nothing to show in the PDF until a simulation has been run
+  if (isPdfMode && !result) return null;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <div className="flex justify-between items-center mb-4 print:mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 print:text-base">Risk Simulation</h3>
+        {result && (
+          <span className="text-xs text-gray-400">{result.iterations.toLocaleString('en-US')} Monte Carlo trials</span>
+        )}
+      </div>
+
+      {!isPdfMode && (
+        <div className="print:hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-2 py-2 text-left">Input</th>
+                  <th className="px-2 py-2 text-left">Distribution</th>
+                  {numberFields.map(f => (
+                    <th key={f.key} className="px-2 py-2 text-left">{f.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {variables.map((variable, idx) => (
+                  <tr key={variable.key} className={`border-b ${variable.enabled ? '' : 'opacity-50'}`}>
+                    <td className="px-2 py-2 whitespace-nowrap">
+                      <label className="flex items-center gap-2 text-xs font-bold text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={variable.enabled}
+                          onChange={(e) => updateVariable(idx, { enabled: e.target.checked })}
+                        />
+                        {simulationVariableLabelsFor(property)[variable.key]}
+                      </label>
+                    </td>
+                    <td className="px-2 py-2">
+                      <select
+                        value={variable.type}
+                        onChange={(e) => updateVariable(idx, { type: e.target.value as DistributionType })}
+                        className={`${inputClass} appearance-none`}
+                        disabled={!variable.enabled}
+                      >
+                        <option value="RANGE">Range</option>
+                        <option value="TRIANGULAR">Triangular</option>
+                        <option value="NORMAL">Normal</option>
+                      </select>
+                    </td>
+                    {numberFields.map(f => (
+                      <td key={f.key} className="px-2 py-2">
+                        {f.types.includes(variable.type) && (
+                          <input
+                            type="number"
+                            value={variable[f.key]}
+                            onChange={(e) => updateVariable(idx, { [f.key]: parseFloat(e.target.value) || 0 })}
+                            className={inputClass}
+                            disabled={!variable.enabled}
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <label className="text-xs font-bold text-gray-600 uppercase tracking-wide">Trials</label>
+            <input
+              type="number"
+              min="100"
+              max={MAX_ITERATIONS}
+              step="1000"
+              value={iterations}
+              onChange={(e) => setIterations(Math.min(MAX_ITERATIONS, Math.max(100, parseInt(e.target.value) || 100)))}
+              className={`${inputClass} w-28`}
+              disabled={running}
+            />
+            {running ? (
+              <button
+                onClick={stopWorker}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 rounded-lg border border-gray-200"
+              >
+                Cancel ({Math.round((progress / iterations) * 100)}%)
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                className="px-4 py-2 text-sm font-medium text-white bg-brand-600 hover:bg-brand-700 rounded-lg transition-colors"
+              >
+                Run Simulation
+              </button>
+            )}
+            <button
+              onClick={() => setVariables(defaultSimulationVariables(property, params))}
+              className="text-xs font-medium text-brand-600 hover:text-brand-800"
+              disabled={running}
+            >
+              Reset ranges to current inputs
+            </button>
+            {isStale && !running && (
+              <span className="text-xs text-amber-600">Inputs changed since the last run.</span>
+            )}
+          </div>
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-4 print:mt-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm print:gap-2">
+            {[
+              { label: 'Cash Flow P10', value: formatCurrency(result.annualCashFlow.p10) },
+              { label: 'Cash Flow P50', value: formatCurrency(result.annualCashFlow.p50) },
+              { label: 'Cash Flow P90', value: formatCurrency(result.annualCashFlow.p90) },
+              { label: 'Chance of Negative Cash Flow', value: formatPercent(result.probabilityNegativeCashFlow * 100) },
+              { label: 'Cash on Cash P10', value: formatPercent(result.cashOnCashReturn.p10) },
+              { label: 'Cash on Cash P50', value: formatPercent(result.cashOnCashReturn.p50) },
+              { label: 'Cash on Cash P90', value: formatPercent(result.cashOnCashReturn.p90) },
+              { label: 'Mean Cash Flow', value: formatCurrency(result.annualCashFlow.mean) },
+            ].map(stat => (
+              <div key={stat.label}>
+                <div className="text-xs text-gray-500 uppercase">{stat.label}</div>
+                <div className="font-bold text-gray-900">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="w-full h-56 print:h-44">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogramData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 9 }} interval={3} />
+                <YAxis tick={{ fontSize: 10 }} width={40} />
+                <RechartsTooltip
+                  formatter={(value: number) => [value, 'Trials']}
+                  labelFormatter={(label) => `Annual cash flow ≈ ${label}`}
+                />
+                <Bar dataKey="count">
+                  {histogramData.map((entry, index) => (
+                    <Cell key={`bin-${index}`} fill={entry.negative ? '#f87171' : '#0ea5e9'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
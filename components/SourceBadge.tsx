@@ -0,0 +1,36 @@
+import React from 'react';
+import { FieldConfidence, FieldProvenance } from '../types';
+import { Tooltip } from './Tooltip';
+
+export const CONFIDENCE_STYLES: Record<FieldConfidence, { label: string; description: string; className: string }> = {
+  HIGH: { label: 'High', description: 'Read from a listing or public record', className: 'bg-green-100 text-green-800' },
+  MEDIUM: { label: 'Medium', description: 'Derived from comparable listings', className: 'bg-yellow-100 text-yellow-800' },
+  LOW: { label: 'Low', description: 'Estimated', className: 'bg-red-50 text-red-700' },
+};
+
+export const describeProvenance = (provenance: FieldProvenance) => {
+  const confidence = CONFIDENCE_STYLES[provenance.confidence];
+  return [
+    `Source: ${provenance.source}${provenance.url ? ` (${provenance.url})` : ''}.`,
+    `Confidence: ${confidence.label}, ${confidence.description.toLowerCase()}.`,
+    provenance.grounded ? 'Matches a search result behind the analysis.' : 'Not among the search results behind the analysis.',
+  ].join(' ');
+};
+
+interface SourceBadgeProps {
+  provenance?: FieldProvenance;
+}
+
+export const SourceBadge: React.FC<SourceBadgeProps> = ({ provenance }) => {
+  if (!provenance) return null;
+  const confidence = CONFIDENCE_STYLES[provenance.confidence];
+  return (
+    <span className="inline-block align-middle ml-1 normal-case tracking-normal">
+      <Tooltip content={describeProvenance(provenance)}>
+        <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium cursor-help max-w-[9rem] truncate ${confidence.className}`}>
+          {provenance.grounded && '✓ '}{provenance.source} · {confidence.label}
+        </span>
+      </Tooltip>
+    </span>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AIResponseField, FieldProvenance, PropertyData } from '../types';
+import { RESPONSE_FIELDS, SHORT_TERM_RENTAL_RESPONSE_FIELDS } from '../services/responseSchema';
+import { CONFIDENCE_STYLES } from './SourceBadge';
+
+interface SourcesPanelProps {
+  property: PropertyData;
+  isPdfMode?: boolean;
+}
+
+const FIELD_LABELS = new Map<AIResponseField, string>(
+  [...RESPONSE_FIELDS, ...SHORT_TERM_RENTAL_RESPONSE_FIELDS].map(f => [f.key, f.label])
+);
+
+// Appendix listing where each AI-sourced value came from, for defending the numbers
+export const SourcesPanel: React.FC<SourcesPanelProps> = ({ property, isPdfMode = false }) => {
+  const provenance = Object.entries(property.provenance ?? {}) as [AIResponseField, FieldProvenance][];
+  const searchResults = property.groundingSources ?? [];
+  if (provenance.length === 0 && searchResults.length === 0) return null;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <div className="flex justify-between items-center mb-4 print:mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 print:text-base">Data Sources</h3>
+        <span className="text-xs text-gray-400 print:text-gray-500">As reported by the AI analysis</span>
+      </div>
+
+      {provenance.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm text-left text-gray-500 print:text-xs">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50 print:bg-gray-100">
+              <tr>
+                <th className="px-4 py-3 print:px-2 print:py-1">Field</th>
+                <th className="px-4 py-3 print:px-2 print:py-1">Source</th>
+                <th className="px-4 py-3 print:px-2 print:py-1">Confidence</th>
+                <th className="px-4 py-3 print:px-2 print:py-1">In Search Results</th>
+              </tr>
+            </thead>
+            <tbody>
+              {provenance.map(([field, entry]) => (
+                <tr key={field} className="border-b">
+                  <td className="px-4 py-2 font-medium text-gray-900 print:px-2 print:py-1">{FIELD_LABELS.get(field) ?? field}</td>
+                  <td className="px-4 py-2 print:px-2 print:py-1">
+                    {entry.source}
+                    {entry.url && (
+                      <a href={entry.url} target="_blank" rel="noreferrer" className="block text-[10px] text-brand-600 hover:underline break-all">
+                        {entry.url}
+                      </a>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 print:px-2 print:py-1">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${CONFIDENCE_STYLES[entry.confidence].className}`}>
+                      {CONFIDENCE_STYLES[entry.confidence].label}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 print:px-2 print:py-1">{entry.grounded ? '✓ Yes' : 'No'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {searchResults.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-gray-600 uppercase tracking-wide mb-2">Search Results Used</h4>
+          <ol className="list-decimal list-inside text-xs text-gray-600 space-y-0.5">
+            {searchResults.map(result => (
+              <li key={result.url}>
+                <a href={result.url} target="_blank" rel="noreferrer" className="text-brand-600 hover:underline">{result.title}</a>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { CalculationResult, LenderThresholds } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { LENDER_THRESHOLD_FIELDS, evaluateUnderwriting } from '../utils/underwriting';
+import { Tooltip } from './Tooltip';
+
+interface UnderwritingPanelProps {
+  metrics: CalculationResult;
+  thresholds: LenderThresholds;
+  onThresholdsChange: (t: LenderThresholds) => void;
+  isPdfMode?: boolean;
+}
+
+export const UnderwritingPanel: React.FC<UnderwritingPanelProps> = ({
+  metrics,
+  thresholds,
+  onThresholdsChange,
+  isPdfMode = false,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const checks = evaluateUnderwriting(metrics, thresholds);
+  const failures = checks.filter(c => !c.passes);
+  const hasDebt = metrics.annualDebtService > 0;
+
+  const rows: { key: keyof CalculationResult; label: string; value: string; tooltip: string }[] = [
+    {
+      key: 'dscr',
+      label: 'DSCR',
+      value: hasDebt ? `${metrics.dscr.toFixed(2)}x` : 'No debt',
+      tooltip: 'Debt Service Coverage Ratio: NOI divided by annual debt service. Most lenders want at least 1.20–1.25x.',
+    },
+    {
+      key: 'debtYield',
+      label: 'Debt Yield',
+      value: hasDebt ? formatPercent(metrics.debtYield) : 'No debt',
+      tooltip: 'NOI divided by the total loan amount. Shows the lender\'s return if they had to take the property back.',
+    },
+    {
+      key: 'breakEvenOccupancy',
+      label: 'Break-Even Occupancy',
+      value: formatPercent(metrics.breakEvenOccupancy),
+      tooltip: 'Share of gross potential rent needed to cover operating expenses and debt service.',
+    },
+    {
+      key: 'operatingExpenseRatio',
+      label: 'Expense Ratio',
+      value: formatPercent(metrics.operatingExpenseRatio),
+      tooltip: 'Operating expenses as a share of effective gross income.',
+    },
+    {
+      key: 'grossRentMultiplier',
+      label: 'Gross Rent Multiplier',
+      value: `${metrics.grossRentMultiplier.toFixed(2)}x`,
+      tooltip: 'Purchase price divided by gross annual rent. Brokers use it for quick comparisons.',
+    },
+    {
+      key: 'pricePerUnit',
+      label: 'Price Per Unit',
+      value: formatCurrency(metrics.pricePerUnit),
+      tooltip: 'Purchase price divided by the number of units.',
+    },
+  ];
+
+  const checkFor = (metric: keyof CalculationResult) => {
+    const field = LENDER_THRESHOLD_FIELDS.find(f => f.metric === metric);
+    const check = field && checks.find(c => c.key === field.key);
+    return field && check ? { field, check } : null;
+  };
+
+  const inputClass = `
+    w-full px-3 py-2 border border-blue-200 rounded-lg
+    focus:ring-2 focus:ring-brand-500 focus:outline-none transition-shadow
+    bg-blue-50 text-gray-900 font-medium text-sm
+  `;
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <div className="flex justify-between items-center mb-4 print:mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 print:text-base">Underwriting</h3>
+        <div className="flex items-center gap-3">
+          {checks.length > 0 && (
+            <span className={`px-3 py-1 text-xs rounded-full font-medium ${failures.length === 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+              {failures.length === 0 ? 'Meets lender thresholds' : `Fails ${failures.length} lender ${failures.length === 1 ? 'check' : 'checks'}`}
+            </span>
+          )}
+          {!isPdfMode && (
+            <button
+              onClick={() => setEditing(!editing)}
+              className="text-xs font-medium text-brand-600 hover:text-brand-800 print:hidden"
+            >
+              {editing ? 'Done' : 'Thresholds'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editing && !isPdfMode && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4 p-3 bg-gray-50 rounded-lg print:hidden">
+          {LENDER_THRESHOLD_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-[10px] font-bold text-gray-600 mb-1 uppercase tracking-wide">
+                {field.direction === 'min' ? 'Min' : 'Max'} {field.label} ({field.unit})
+              </label>
+              <input
+                type="number"
+                step={field.unit === 'x' ? '0.05' : '1'}
+                value={thresholds[field.key] ?? ''}
+                placeholder="Off"
+                onChange={(e) => onThresholdsChange({
+                  ...thresholds,
+                  [field.key]: e.target.value === '' ? null : parseFloat(e.target.value) || 0,
+                })}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 print:gap-2">
+        {rows.map(row => {
+          const result = checkFor(row.key);
+          const check = result?.check;
+          return (
+            <div
+              key={row.key}
+              className={`p-3 rounded-lg border ${check ? (check.passes ? 'border-green-200 bg-green-50/50' : 'border-red-200 bg-red-50/50') : 'border-gray-100'}`}
+            >
+              <div className="flex justify-between items-start">
+                <span className="text-xs text-gray-500 uppercase">{row.label}</span>
+                <Tooltip content={row.tooltip}>
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-gray-400 cursor-help print:hidden">
+                    <circle cx="12" cy="12" r="10"></circle>
+                    <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3"></path>
+                    <line x1="12" y1="17" x2="12.01" y2="17"></line>
+                  </svg>
+                </Tooltip>
+              </div>
+              <div className="text-lg font-bold text-gray-900">{row.value}</div>
+              {result && (
+                <div className={`text-xs ${result.check.passes ? 'text-green-700' : 'text-red-700'}`}>
+                  {result.check.passes ? '✓' : '✗'} {result.field.direction === 'min' ? '≥' : '≤'} {result.check.threshold}{result.field.unit}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
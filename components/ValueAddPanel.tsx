@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { PropertyData, FinancialParams, ValueAddPlan } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { calculateValueAddAnalysis } from '../utils/valueAdd';
+import { MetricCard } from './MetricCard';
+
+interface ValueAddPanelProps {
+  property: PropertyData;
+  params: FinancialParams;
+  plan: ValueAddPlan;
+  isPdfMode?: boolean;
+}
+
+export const ValueAddPanel: React.FC<ValueAddPanelProps> = ({
+  property,
+  params,
+  plan,
+  isPdfMode = false,
+}) => {
+  const analysis = useMemo(
+    () => calculateValueAddAnalysis(property, params, plan),
+    [property, params, plan]
+  );
+
+  const rows: { label: string; value: string; emphasis?: boolean }[] = [
+    { label: 'Acquisition Cash', value: formatCurrency(analysis.acquisitionCash) },
+    { label: 'Rehab Budget', value: formatCurrency(analysis.rehabBudget) },
+    { label: `Holding Costs (${plan.rehabMonths} mo)`, value: formatCurrency(analysis.holdingCosts) },
+    { label: 'Loan Payments During Rehab', value: formatCurrency(analysis.rehabDebtService) },
+    { label: 'Total Cash Invested', value: formatCurrency(analysis.totalCashInvested), emphasis: true },
+    { label: 'Refinance Loan', value: formatCurrency(analysis.refinanceLoanAmount) },
+    { label: 'Acquisition Loan Payoff', value: `-${formatCurrency(analysis.acquisitionPayoff)}` },
+    { label: 'Refinance Closing Costs', value: `-${formatCurrency(analysis.refinanceClosingCosts)}` },
+    { label: 'Cash-Out Proceeds', value: formatCurrency(analysis.cashOutProceeds), emphasis: true },
+  ];
+
+  return (
+    <div className={`bg-white p-6 rounded-xl shadow-sm border border-gray-100 print:shadow-none print:border print:p-4 print:break-inside-avoid ${isPdfMode ? 'shadow-none border p-4' : ''}`}>
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 print:text-base print:mb-2">Value-Add / BRRRR</h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 print:grid-cols-4 print:gap-2 print:mb-3">
+        <MetricCard
+          label="Cash Left in Deal"
+          value={formatCurrency(Math.max(0, analysis.cashLeftInDeal))}
+          subValue={analysis.cashLeftInDeal < 0 ? `${formatCurrency(-analysis.cashLeftInDeal)} pulled out beyond cost` : undefined}
+          tooltip="Total cash invested less the cash-out proceeds from the refinance."
+          trend={analysis.cashLeftInDeal <= 0 ? 'positive' : 'neutral'}
+          highlight
+        />
+        <MetricCard
+          label="Post-Refi Cash on Cash"
+          value={analysis.postRefiCashOnCash === null ? '∞' : formatPercent(analysis.postRefiCashOnCash)}
+          subValue={`${formatCurrency(analysis.postRefiCashFlow)}/yr cash flow`}
+          tooltip="Stabilized annual cash flow after the refinance divided by the cash left in the deal. Infinite when all of your cash came back out."
+          trend={analysis.postRefiCashFlow >= 0 ? 'positive' : 'negative'}
+        />
+        <MetricCard
+          label="All-In Cost"
+          value={formatCurrency(analysis.allInCost)}
+          subValue={plan.afterRepairValue > 0 ? `${((analysis.allInCost / plan.afterRepairValue) * 100).toFixed(0)}% of ARV` : undefined}
+          tooltip="Purchase price, closing costs, loan fees, rehab and carrying costs through the refinance."
+        />
+        <MetricCard
+          label="Post-Refi DSCR"
+          value={analysis.postRefiDebtService > 0 ? `${analysis.postRefiDscr.toFixed(2)}x` : 'No debt'}
+          subValue={`NOI ${formatCurrency(analysis.postRefiNoi)}`}
+          tooltip="Stabilized NOI at post-rehab rents divided by the refinance loan's annual payments."
+          trend={analysis.postRefiDscr >= 1.25 ? 'positive' : 'negative'}
+        />
+      </div>
+
+      <div className="space-y-2 text-sm print:space-y-1">
+        {rows.map(row => (
+          <div key={row.label} className={`flex justify-between border-b pb-2 print:pb-1 ${row.emphasis ? 'font-bold text-gray-900' : 'text-gray-600'}`}>
+            <span>{row.label}</span>
+            <span>{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+// Failures from AI calls, classified so the UI can say what to do about them and the
+// analysis can retry the ones that tend to clear up on their own
+
+export type AIErrorKind =
+  | 'MISSING_KEY'
+  | 'INVALID_KEY'
+  | 'RATE_LIMIT'
+  | 'NETWORK'
+  | 'SAFETY_BLOCK'
+  | 'EMPTY_RESPONSE'
+  | 'PARSE_FAILURE'
+  | 'UNKNOWN';
+
+// Rate limits and dropped connections usually pass; everything else fails the same way again
+const TRANSIENT_KINDS: AIErrorKind[] = ['RATE_LIMIT', 'NETWORK'];
+
+export const AI_ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  MISSING_KEY: 'No API key is set for this AI provider. Add one under "Change AI provider".',
+  INVALID_KEY: 'The AI provider rejected your API key. Check the key, and the base URL for OpenAI-compatible servers, under "Change AI provider".',
+  RATE_LIMIT: "The AI provider's rate limit or quota was reached. Wait a minute and try again, or check the quota on your plan.",
+  NETWORK: "Couldn't reach the AI provider. Check your connection, and the base URL for OpenAI-compatible servers, then try again.",
+  SAFETY_BLOCK: "The AI provider's safety filters blocked this request. Try entering the address differently.",
+  EMPTY_RESPONSE: 'The AI returned an empty response. Try again, or switch to a different model.',
+  PARSE_FAILURE: "The AI's reply could not be read as property data. Try again, or switch to a model that follows JSON instructions more reliably.",
+  UNKNOWN: "We couldn't analyze that property. Please check the address, your AI provider settings, or try again later.",
+};
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number; // HTTP status from the provider, when there was one
+  rawResponse?: string; // The model's reply, kept for debugging parse failures
+
+  constructor(kind: AIErrorKind, message: string, details: { status?: number; rawResponse?: string; cause?: unknown } = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = details.status;
+    this.rawResponse = details.rawResponse;
+  }
+
+  get transient() {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const errorKindFromStatus = (status: number, message = ''): AIErrorKind => {
+  if (status === 401 || status === 403) return 'INVALID_KEY';
+  // Gemini answers a bad key with 400 "API key not valid"
+  if (status === 400 && /api[ _-]?key/i.test(message)) return 'INVALID_KEY';
+  if (status === 429) return 'RATE_LIMIT';
+  if (status === 408 || status >= 500) return 'NETWORK';
+  return 'UNKNOWN';
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Normalise anything a provider SDK or fetch can throw into an AIError
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+
+  if (status !== undefined) {
+    return new AIError(errorKindFromStatus(status, message), message, { status, cause: error });
+  }
+  if (/quota|rate limit|resource_exhausted/i.test(message)) {
+    return new AIError('RATE_LIMIT', message, { cause: error });
+  }
+  // fetch rejects with a TypeError when the request never gets a response
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new AIError('NETWORK', message, { cause: error });
+  }
+  return new AIError('UNKNOWN', message, { cause: error });
+};
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Abortable delay
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Run an AI call, retrying transient failures after 1s, 2s and 4s (plus jitter). Aborts
+// pass straight through; every other failure comes out as an AIError.
+export const withRetry = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      const aiError = classifyError(error);
+      if (!aiError.transient || attempt >= RETRY_ATTEMPTS) throw aiError;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,127 @@
+import { GroundingSource } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createFixtureProvider, withRecording } from './fixtureProvider';
+
+// A text-generation backend for the property analysis. Each provider turns a prompt into
+// the model's raw text reply plus any search sources; prompt building and parsing stay in
+// the analysis service.
+
+export type AIProviderId = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'FIXTURE';
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  recordResponses?: boolean; // Save live replies so the fixture provider can replay them
+}
+
+export interface AIRequest {
+  prompt: string;
+  webSearch?: boolean; // Ground the reply in live search results where the provider supports it
+  signal?: AbortSignal;
+  onText?: (textSoFar: string) => void; // Called as the reply streams in
+}
+
+export interface AIResponse {
+  text: string;
+  sources: GroundingSource[]; // Web pages the provider's search grounding cited, if any
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  model: string;
+  generate: (request: AIRequest) => Promise<AIResponse>;
+}
+
+export const AI_PROVIDERS: {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  needsApiKey: boolean;
+  needsBaseUrl: boolean;
+}[] = [
+  { id: 'GEMINI', label: 'Google Gemini', defaultModel: 'gemini-3-pro-preview', needsApiKey: true, needsBaseUrl: false },
+  { id: 'OPENAI_COMPATIBLE', label: 'OpenAI-compatible', defaultModel: 'gpt-4o', needsApiKey: false, needsBaseUrl: true },
+  { id: 'FIXTURE', label: 'Offline fixtures', defaultModel: 'fixture', needsApiKey: false, needsBaseUrl: false },
+];
+
+export const AI_PROVIDER_STORAGE_KEY = 'caprate_ai_provider';
+// Where earlier versions kept the Gemini key
+export const LEGACY_GEMINI_KEY_STORAGE_KEY = 'gemini_api_key';
+
+export const findAIProvider = (id: AIProviderId) =>
+  AI_PROVIDERS.find(p => p.id === id) ?? AI_PROVIDERS[0];
+
+export const isProviderConfigured = (config: AIProviderConfig | null): config is AIProviderConfig => {
+  if (!config || !config.model.trim()) return false;
+  const meta = findAIProvider(config.provider);
+  if (meta.needsApiKey && !config.apiKey?.trim()) return false;
+  if (meta.needsBaseUrl && !config.baseUrl?.trim()) return false;
+  return true;
+};
+
+// Build-time defaults from .env.local: AI_PROVIDER (gemini, openai or fixture), AI_MODEL,
+// AI_BASE_URL and AI_API_KEY. GEMINI_API_KEY still works on its own for Gemini.
+export const envProviderConfig = (): AIProviderConfig | null => {
+  const name = (process.env.AI_PROVIDER || '').toLowerCase();
+  const provider: AIProviderId | null =
+    name === 'openai' ? 'OPENAI_COMPATIBLE'
+    : name === 'fixture' ? 'FIXTURE'
+    : name === 'gemini' || process.env.GEMINI_API_KEY ? 'GEMINI'
+    : null;
+  if (!provider) return null;
+  return {
+    provider,
+    model: process.env.AI_MODEL || findAIProvider(provider).defaultModel,
+    apiKey: process.env.AI_API_KEY || (provider === 'GEMINI' ? process.env.GEMINI_API_KEY : undefined) || undefined,
+    baseUrl: process.env.AI_BASE_URL || undefined,
+  };
+};
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+// Stored settings may be stale or hand-edited; anything without a known provider is ignored
+// and a missing model falls back to the provider's default
+const validateProviderConfig = (raw: unknown): AIProviderConfig | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const record = raw as Record<string, unknown>;
+  const meta = AI_PROVIDERS.find(p => p.id === record.provider);
+  if (!meta) return null;
+  const model = optionalString(record.model)?.trim();
+  return {
+    provider: meta.id,
+    model: model || meta.defaultModel,
+    apiKey: optionalString(record.apiKey),
+    baseUrl: optionalString(record.baseUrl),
+    recordResponses: record.recordResponses === true,
+  };
+};
+
+// Stored settings win over the environment; a bare Gemini key from earlier versions
+// becomes a Gemini config on the default model
+export const loadProviderConfig = (): AIProviderConfig | null => {
+  const stored = localStorage.getItem(AI_PROVIDER_STORAGE_KEY);
+  if (stored) {
+    try {
+      const config = validateProviderConfig(JSON.parse(stored));
+      if (config) return config;
+    } catch (e) {
+      console.error("Failed to parse AI provider settings", e);
+    }
+  }
+  const legacyKey = localStorage.getItem(LEGACY_GEMINI_KEY_STORAGE_KEY);
+  if (legacyKey) {
+    return { provider: 'GEMINI', model: findAIProvider('GEMINI').defaultModel, apiKey: legacyKey };
+  }
+  return envProviderConfig();
+};
+
+export const createAIProvider = (config: AIProviderConfig): AIProvider => {
+  if (config.provider === 'FIXTURE') return createFixtureProvider(config);
+  const provider = config.provider === 'OPENAI_COMPATIBLE'
+    ? createOpenAiCompatibleProvider(config)
+    : createGeminiProvider(config);
+  return config.recordResponses ? withRecording(provider) : provider;
+};
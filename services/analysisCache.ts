@@ -0,0 +1,120 @@
+import { PropertyData, RentalStrategy } from '../types';
+import { AIProviderId } from './aiProvider';
+
+// Finished analyses kept in IndexedDB so searching the same address again does not pay for
+// another model call. Entries are keyed by normalized address and rental strategy.
+
+const DB_NAME = 'caprate_cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+
+export const CACHE_TTL_STORAGE_KEY = 'caprate_cache_ttl_days';
+export const DEFAULT_CACHE_TTL_DAYS = 7;
+export const CACHE_TTL_OPTIONS: { days: number; label: string }[] = [
+  { days: 0, label: "Don't cache" },
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+export interface CachedAnalysis {
+  key: string;
+  address: string; // As typed for the original search
+  strategy: RentalStrategy;
+  provider: AIProviderId;
+  model: string;
+  rawResponses: string[]; // Every model reply behind the result, follow-ups included
+  property: PropertyData;
+  cachedAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', boulevard: 'blvd', lane: 'ln',
+  court: 'ct', place: 'pl', terrace: 'ter', highway: 'hwy', parkway: 'pkwy',
+  apartment: 'apt', suite: 'ste', north: 'n', south: 's', east: 'e', west: 'w',
+};
+
+// "123 Main Street, Apt. 4" and "123 main st apt 4" are the same property
+export const normalizeAddress = (address: string) =>
+  address
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(' ')
+    .replace(/\s+(usa|united states)$/, '');
+
+const cacheKey = (address: string, strategy: RentalStrategy) => `${normalizeAddress(address)}|${strategy}`;
+
+export const loadCacheTtlDays = (raw: string | null) => {
+  const days = raw === null ? NaN : Number(raw);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_CACHE_TTL_DAYS;
+};
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  });
+};
+
+// The cache is an optimisation, so storage failures (private browsing, quota) are logged
+// and treated as a miss rather than failing the search
+
+export const getCachedAnalysis = async (
+  address: string,
+  strategy: RentalStrategy,
+  ttlDays: number
+): Promise<CachedAnalysis | null> => {
+  if (ttlDays <= 0) return null;
+  try {
+    const key = cacheKey(address, strategy);
+    const entry = await runRequest<CachedAnalysis | undefined>('readonly', store => store.get(key));
+    if (!entry) return null;
+    if (Date.now() - entry.cachedAt > ttlDays * DAY_MS) {
+      await runRequest('readwrite', store => store.delete(key));
+      return null;
+    }
+    return entry;
+  } catch (e) {
+    console.error("Failed to read analysis cache", e);
+    return null;
+  }
+};
+
+export const putCachedAnalysis = async (entry: Omit<CachedAnalysis, 'key' | 'cachedAt'>) => {
+  try {
+    await runRequest('readwrite', store => store.put({
+      ...entry,
+      key: cacheKey(entry.address, entry.strategy),
+      cachedAt: Date.now(),
+    }));
+  } catch (e) {
+    console.error("Failed to write analysis cache", e);
+  }
+};
+
+export const formatDataAge = (timestamp: number, now = Date.now()) => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hr ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} ${days === 1 ? 'day' : 'days'} ago`;
+};
@@ -0,0 +1,287 @@
+import { AIResponseField, AnalysisStage, GroundingSource, PropertyData, RentalStrategy, ShortTermRental } from '../types';
+import { expenseItemsFromFields } from '../utils/expenses';
+import { rentRollFromRents } from '../utils/rentRoll';
+import { createShortTermRental } from '../utils/shortTermRental';
+import { AIProvider } from './aiProvider';
+import { AIError, withRetry } from './aiErrors';
+import {
+  ValidatedResponse,
+  buildFollowUpPrompt,
+  fieldsToRetry,
+  mergeFollowUp,
+  provenancePrompt,
+  validateAnalysisResponse,
+} from './responseSchema';
+
+// Helper to parse JSON from a potential markdown block
+export const extractJSON = (text: string): any => {
+  try {
+    // Attempt direct parse
+    return JSON.parse(text);
+  } catch (e) {
+    // Attempt to find markdown code block
+    const match = text.match(/```json\s*([\s\S]*?)\s*```/);
+    if (match && match[1]) {
+      try {
+        return JSON.parse(match[1]);
+      } catch (e2) {
+        console.error("Failed to parse extracted JSON block", e2);
+      }
+    }
+    // Attempt to find just the first { and last }
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end !== -1) {
+      try {
+        return JSON.parse(text.substring(start, end + 1));
+      } catch (e3) {
+        console.error("Failed to parse JSON substring", e3);
+      }
+    }
+    throw new AIError('PARSE_FAILURE', "Could not parse JSON response from model", { rawResponse: text });
+  }
+};
+
+// Salvage whatever is complete from a reply that is still streaming in: cut back to the
+// last comma or closing bracket outside a string, then close the brackets left open
+const parsePartialJSON = (text: string): unknown => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+  const body = text.slice(start);
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeEnd = 0;
+  let safeClosers: string[] = [];
+
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (c === '\\') escaped = true;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      closers.push(c === '{' ? '}' : ']');
+    } else if (c === '}' || c === ']') {
+      closers.pop();
+      safeEnd = i + 1;
+      safeClosers = [...closers];
+      if (closers.length === 0) break;
+    } else if (c === ',') {
+      safeEnd = i;
+      safeClosers = [...closers];
+    }
+  }
+
+  try {
+    return JSON.parse(body.slice(0, safeEnd) + safeClosers.reverse().join(''));
+  } catch (e) {
+    return null;
+  }
+};
+
+export const ANALYSIS_STAGES: {
+  key: AnalysisStage;
+  label: string;
+  fields: AIResponseField[]; // The stage is done once all of these have arrived
+  strategy?: RentalStrategy; // Only reported for this strategy
+}[] = [
+  { key: 'VALUATION', label: 'Valuation found', fields: ['listPrice'] },
+  { key: 'UNITS', label: 'Units found', fields: ['numUnits', 'estimatedRentPerUnit'] },
+  { key: 'COMPS', label: 'Comps found', fields: ['comps'] },
+  { key: 'TAXES', label: 'Taxes estimated', fields: ['propertyTaxAnnual', 'insuranceAnnual'] },
+  { key: 'NIGHTLY_RATES', label: 'Nightly rates estimated', fields: ['averageDailyRate', 'monthlyOccupancyPercent'], strategy: 'SHORT_TERM' },
+];
+
+export const stagesFor = (strategy: RentalStrategy) =>
+  ANALYSIS_STAGES.filter(stage => !stage.strategy || stage.strategy === strategy);
+
+export interface AnalysisProgress {
+  completed: AnalysisStage[];
+  property: PropertyData; // Built from the fields gathered so far
+}
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // Aborting keeps the fields gathered so far
+  onProgress?: (progress: AnalysisProgress) => void;
+  onRawResponse?: (text: string) => void; // Each complete model reply, e.g. for caching
+}
+
+// Extra search steps and JSON fields asked for when underwriting a nightly rental
+const SHORT_TERM_RENTAL_PROMPT = `
+    This property is being evaluated as a SHORT-TERM RENTAL (Airbnb / VRBO). In addition:
+    6. Find active short-term rental listings (comps) near this property with similar bedrooms/bathrooms (look for data from Airbnb, VRBO, AirDNA, etc.).
+    7. Estimate the average nightly rate (ADR) for a unit in this property based on those comps.
+    8. Estimate the occupancy percentage for each month of the year, reflecting the local seasonality.
+    9. Estimate the typical cleaning fee charged per stay and the average length of stay in nights.
+
+    Add this field to the JSON object, and list the short-term rental comps in "comps" with "type": "STR" and "price" as the nightly rate:
+      "shortTermRental": {
+        "averageDailyRate": number (nightly rate in USD),
+        "monthlyOccupancyPercent": [number, ... 12 values from January to December, each 0-100],
+        "cleaningFeePerStay": number (USD charged to the guest per stay),
+        "averageStayNights": number
+      }
+`;
+
+// Keep the model's validated STR estimates and fall back to defaults for the rest
+const shortTermRentalFromResponse = (values: ValidatedResponse['values'], monthlyRent: number): ShortTermRental => {
+  const defaults = createShortTermRental(monthlyRent);
+  return {
+    ...defaults,
+    averageDailyRate: values.averageDailyRate ?? defaults.averageDailyRate,
+    monthlyOccupancyPercent: values.monthlyOccupancyPercent ?? defaults.monthlyOccupancyPercent,
+    cleaningFeePerStay: values.cleaningFeePerStay ?? defaults.cleaningFeePerStay,
+    averageStayNights: values.averageStayNights ?? defaults.averageStayNights,
+  };
+};
+
+// Fill defaults for whatever is still missing; the diagnostics flag those inputs
+const buildProperty = (
+  address: string,
+  strategy: RentalStrategy,
+  result: ValidatedResponse,
+  groundingSources: GroundingSource[]
+): PropertyData => {
+  const data = result.values;
+
+  // Process units and rents
+  const numUnits = data.numUnits ?? 1;
+  const estimatedRent = data.estimatedRentPerUnit ?? 0;
+
+  // Create initial rent roll, defaulting all units to the estimated average
+  const rentRoll = rentRollFromRents(new Array(numUnits).fill(estimatedRent));
+
+  return {
+    address: address,
+    listPrice: data.listPrice ?? 0,
+    numUnits: numUnits,
+    estimatedRentPerUnit: estimatedRent,
+    rentRoll: rentRoll,
+    otherIncome: [],
+    expenses: expenseItemsFromFields({
+      propertyTaxAnnual: data.propertyTaxAnnual ?? 0,
+      insuranceAnnual: data.insuranceAnnual ?? 0,
+      hoaMonthly: data.hoaMonthly ?? 0,
+      maintenanceRate: 5, // Default 5%
+    }),
+    vacancyRate: 5,     // Default 5%
+    shortTermRental: strategy === 'SHORT_TERM'
+      ? shortTermRentalFromResponse(data, estimatedRent)
+      : undefined,
+    description: data.description || "No description available.",
+    comps: data.comps ?? [],
+    diagnostics: result.diagnostics.length > 0 ? result.diagnostics : undefined,
+    provenance: Object.keys(result.provenance).length > 0 ? result.provenance : undefined,
+    groundingSources: groundingSources.length > 0 ? groundingSources : undefined,
+    analyzedAt: Date.now(),
+  };
+};
+
+// An empty list only means the first item has not streamed in yet
+const isGathered = (values: ValidatedResponse['values']) => (field: AIResponseField) => {
+  const value = values[field];
+  return value !== undefined && !(Array.isArray(value) && value.length === 0);
+};
+
+export const analyzeProperty = async (
+  address: string,
+  provider: AIProvider,
+  strategy: RentalStrategy = 'LONG_TERM',
+  { signal, onProgress, onRawResponse }: AnalyzeOptions = {}
+): Promise<PropertyData> => {
+  const prompt = `
+    I need a real estate investment analysis for the property at: "${address}".
+    
+    Please perform the following steps using web search:
+    1. Find the current estimated market value or list price of this property.
+    2. Estimate the number of units and bedrooms/bathrooms.
+    3. Find current RENTAL listings (comps) for similar properties in the same neighborhood (look for data from StreetEasy, Zillow, Redfin, etc.). 
+    4. Estimate the monthly market rent for the units in this property based on those comps.
+    5. Estimate the annual property tax and annual homeowner's insurance cost.
+    
+    Return the data strictly as a JSON object with the following structure. Do not return any other text.
+    {
+      "listPrice": number (estimated value in USD),
+      "numUnits": number (default to 1 if unknown),
+      "estimatedRentPerUnit": number (monthly rent in USD),
+      "propertyTaxAnnual": number (annual tax in USD),
+      "insuranceAnnual": number (annual insurance in USD),
+      "hoaMonthly": number (monthly HOA dues if applicable, else 0),
+      "description": string (short summary of property details found),
+      "comps": [
+        {
+          "address": string,
+          "price": number (rent price),
+          "type": "RENT",
+          "bedrooms": number,
+          "bathrooms": number,
+          "source": string (e.g. "Zillow", "StreetEasy")
+        }
+      ],${provenancePrompt(strategy)}
+    }
+    
+    ${strategy === 'SHORT_TERM' ? SHORT_TERM_RENTAL_PROMPT : ''}
+    If exact numbers are not found, make a highly educated estimate based on the local market data found in your search.
+    For every value, name the source it came from in "sources" and rate your confidence: HIGH when it was read
+    directly from a listing or public record, MEDIUM when derived from comparable listings, LOW when estimated.
+  `;
+
+  // Latest partial reply that parsed, kept so cancelling does not lose it
+  let partial: ValidatedResponse | null = null;
+  let lastReported = '';
+  const handleText = (text: string) => {
+    const raw = parsePartialJSON(text);
+    if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) return;
+    partial = validateAnalysisResponse(raw, strategy);
+    const reported = JSON.stringify(partial.values);
+    if (reported === lastReported) return;
+    lastReported = reported;
+    const values = partial.values;
+    onProgress?.({
+      completed: stagesFor(strategy).filter(stage => stage.fields.every(isGathered(values))).map(stage => stage.key),
+      // Fields still on their way are not problems yet
+      property: buildProperty(address, strategy, { ...partial, diagnostics: [] }, []),
+    });
+  };
+
+  try {
+    let response;
+    try {
+      response = await withRetry(() => provider.generate({ prompt, webSearch: true, signal, onText: handleText }), signal);
+    } catch (error) {
+      if (signal?.aborted && partial) return buildProperty(address, strategy, partial, []);
+      throw error;
+    }
+    onRawResponse?.(response.text);
+    const groundingSources = [...response.sources];
+    let result: ValidatedResponse;
+    try {
+      result = validateAnalysisResponse(extractJSON(response.text), strategy, groundingSources);
+    } catch (error) {
+      if (error instanceof AIError) throw error;
+      throw new AIError('PARSE_FAILURE', (error as Error).message, { rawResponse: response.text, cause: error });
+    }
+
+    // Ask once more for just the required fields the first reply missed or got wrong
+    const retry = fieldsToRetry(result, strategy);
+    if (retry.length > 0 && !signal?.aborted) {
+      try {
+        const followUp = await withRetry(() => provider.generate({ prompt: buildFollowUpPrompt(address, retry), webSearch: true, signal }), signal);
+        onRawResponse?.(followUp.text);
+        groundingSources.push(...followUp.sources.filter(s => !groundingSources.some(g => g.url === s.url)));
+        result = mergeFollowUp(result, extractJSON(followUp.text), retry, groundingSources);
+      } catch (e) {
+        console.error("Follow-up for missing fields failed", e);
+      }
+    }
+
+    return buildProperty(address, strategy, result, groundingSources);
+
+  } catch (error) {
+    console.error(`${provider.id} Analysis Error:`, error);
+    throw error;
+  }
+};
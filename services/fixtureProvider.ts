@@ -0,0 +1,164 @@
+import { GroundingSource } from '../types';
+import { AIProvider, AIProviderConfig, AIResponse } from './aiProvider';
+import { wait } from './aiErrors';
+
+// Replies recorded from live providers, keyed by prompt
+export const AI_RECORDINGS_STORAGE_KEY = 'caprate_ai_recordings';
+
+// Bundled replies used when nothing has been recorded for a prompt, so the app runs
+// offline and demos stay reproducible. The first fixture whose marker appears in the
+// prompt wins; the last one has no marker and catches everything else.
+const SAMPLE_FIXTURES: { marker?: string; response: object; sources: GroundingSource[] }[] = [
+  {
+    // Quotes no figures of its own, so it fits whatever analysis it is asked about
+    marker: 'INVESTMENT MEMO',
+    response: {
+      thesis: "Fixture: a small multifamily deal whose income covers its debt, priced in line with nearby sales. Returns depend on holding rents near the comps rather than on appreciation.",
+      keyMetrics: [
+        { key: "capRate", commentary: "The going-in yield before financing." },
+        { key: "cashOnCashReturn", commentary: "What the cash invested earns in the first year." },
+        { key: "dscr", commentary: "How comfortably NOI covers the mortgage." },
+        { key: "breakEvenOccupancy", commentary: "How much vacancy the deal can absorb before cash flow turns negative." },
+      ],
+      risks: [
+        "Rents are estimated from listings rather than signed leases.",
+        "Taxes may be reassessed upward after the sale.",
+        "Insurance is a regional average and could come in higher.",
+      ],
+      compCommentary: "The estimated rents sit within the range of the rental comps, and the price is close to the nearest sale comp.",
+      recommendation: "NEGOTIATE",
+      recommendationRationale: "The deal works at the asking price, but thin early cash flow leaves room to negotiate.",
+    },
+    sources: [],
+  },
+  {
+    marker: 'SHORT-TERM RENTAL',
+    response: {
+      listPrice: 685000,
+      numUnits: 2,
+      estimatedRentPerUnit: 2400,
+      propertyTaxAnnual: 8200,
+      insuranceAnnual: 2600,
+      hoaMonthly: 0,
+      description: "Fixture: two-unit cottage near the beach, 2 bed / 1 bath per unit.",
+      comps: [
+        { address: "14 Shore Rd", price: 215, type: "STR", bedrooms: 2, bathrooms: 1, source: "Airbnb" },
+        { address: "9 Dune Ln", price: 240, type: "STR", bedrooms: 2, bathrooms: 2, source: "VRBO" },
+        { address: "31 Harbor St", price: 2350, type: "RENT", bedrooms: 2, bathrooms: 1, source: "Zillow" },
+      ],
+      shortTermRental: {
+        averageDailyRate: 225,
+        monthlyOccupancyPercent: [35, 38, 50, 58, 70, 88, 95, 93, 72, 55, 40, 45],
+        cleaningFeePerStay: 125,
+        averageStayNights: 4,
+      },
+      sources: {
+        listPrice: { source: "Zillow", url: "https://www.zillow.com/", confidence: "MEDIUM" },
+        averageDailyRate: { source: "Airbnb", url: "https://www.airbnb.com/", confidence: "MEDIUM" },
+        monthlyOccupancyPercent: { source: "AirDNA", confidence: "LOW" },
+      },
+    },
+    sources: [
+      { title: "zillow.com", url: "https://www.zillow.com/" },
+      { title: "airbnb.com", url: "https://www.airbnb.com/" },
+    ],
+  },
+  {
+    response: {
+      listPrice: 540000,
+      numUnits: 3,
+      estimatedRentPerUnit: 1850,
+      propertyTaxAnnual: 7400,
+      insuranceAnnual: 2100,
+      hoaMonthly: 0,
+      description: "Fixture: three-family house, 2 bed / 1 bath per unit, updated kitchens.",
+      comps: [
+        { address: "112 Maple Ave", price: 1800, type: "RENT", bedrooms: 2, bathrooms: 1, source: "Zillow" },
+        { address: "87 Oak St", price: 1950, type: "RENT", bedrooms: 2, bathrooms: 1, source: "Redfin" },
+        { address: "240 Elm St", price: 525000, type: "SALE", bedrooms: 6, bathrooms: 3, source: "Redfin" },
+      ],
+      sources: {
+        listPrice: { source: "Redfin", url: "https://www.redfin.com/", confidence: "HIGH" },
+        estimatedRentPerUnit: { source: "Zillow", url: "https://www.zillow.com/", confidence: "MEDIUM" },
+        propertyTaxAnnual: { source: "County assessor", confidence: "MEDIUM" },
+        insuranceAnnual: { source: "Regional average", confidence: "LOW" },
+      },
+    },
+    sources: [
+      { title: "redfin.com", url: "https://www.redfin.com/" },
+      { title: "zillow.com", url: "https://www.zillow.com/" },
+    ],
+  },
+];
+
+// Whitespace in the prompt template is not meaningful, so it is collapsed before hashing
+const promptKey = (prompt: string) => {
+  const normalized = prompt.replace(/\s+/g, ' ').trim();
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Recordings made before search sources were captured hold the reply text alone
+const loadRecordings = (): Record<string, AIResponse | string> => {
+  try {
+    return JSON.parse(localStorage.getItem(AI_RECORDINGS_STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.error("Failed to parse AI recordings", e);
+    return {};
+  }
+};
+
+// Oldest recordings are dropped beyond this, so replies don't fill up localStorage
+const MAX_RECORDINGS = 50;
+
+// Keys keep insertion order, so re-recording a prompt moves it to the newest end
+const saveRecording = (key: string, response: AIResponse) => {
+  const { [key]: _previous, ...others } = loadRecordings();
+  const entries = [...Object.entries(others), [key, response] as const].slice(-MAX_RECORDINGS);
+  try {
+    localStorage.setItem(AI_RECORDINGS_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (e) {
+    // Recording is a convenience; a full storage quota must not fail the analysis
+    console.error("Failed to save AI recording", e);
+  }
+};
+
+// Save every reply from a live provider so the same prompt can be replayed later
+export const withRecording = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generate: async (request) => {
+    const response = await provider.generate(request);
+    saveRecording(promptKey(request.prompt), response);
+    return response;
+  },
+});
+
+const REPLAY_CHUNKS = 8;
+const REPLAY_CHUNK_DELAY_MS = 150;
+
+// Replays in fixed-size chunks so streaming progress and cancelling can be exercised offline
+const replay = async (response: AIResponse, signal?: AbortSignal, onText?: (text: string) => void) => {
+  const chunkSize = Math.max(1, Math.ceil(response.text.length / REPLAY_CHUNKS));
+  for (let end = chunkSize; end < response.text.length + chunkSize; end += chunkSize) {
+    await wait(REPLAY_CHUNK_DELAY_MS, signal);
+    onText?.(response.text.slice(0, end));
+  }
+  return response;
+};
+
+export const createFixtureProvider = (config: AIProviderConfig): AIProvider => ({
+  id: 'FIXTURE',
+  model: config.model,
+  generate: async ({ prompt, signal, onText }) => {
+    const recorded = loadRecordings()[promptKey(prompt)];
+    if (recorded) {
+      return replay(typeof recorded === 'string' ? { text: recorded, sources: [] } : recorded, signal, onText);
+    }
+    const fixture = SAMPLE_FIXTURES.find(f => !f.marker || prompt.includes(f.marker))!;
+    // Pretty-printed so the fields arrive one at a time like a model reply
+    return replay({ text: JSON.stringify(fixture.response, null, 2), sources: fixture.sources }, signal, onText);
+  },
+});
@@ -0,0 +1,50 @@
+import { FinishReason, GoogleGenAI } from "@google/genai";
+import { GroundingSource } from '../types';
+import { AIProvider, AIProviderConfig } from './aiProvider';
+import { AIError } from './aiErrors';
+
+const getClient = (apiKey: string) => {
+  if (!apiKey) {
+    throw new AIError('MISSING_KEY', "No API key is configured for Gemini.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+export const createGeminiProvider = (config: AIProviderConfig): AIProvider => ({
+  id: 'GEMINI',
+  model: config.model,
+  generate: async ({ prompt, webSearch, signal, onText }) => {
+    const ai = getClient(config.apiKey || '');
+    const stream = await ai.models.generateContentStream({
+      model: config.model,
+      contents: prompt,
+      config: {
+        // Note: responseMimeType is not allowed with googleSearch, so callers parse the text
+        ...(webSearch ? { tools: [{ googleSearch: {} }] } : {}),
+        abortSignal: signal,
+      },
+    });
+
+    let text = '';
+    const sources: GroundingSource[] = [];
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      const blockReason = chunk.promptFeedback?.blockReason;
+      if (blockReason || chunk.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+        throw new AIError('SAFETY_BLOCK', `Gemini blocked the request (${blockReason ?? 'SAFETY'})`, { rawResponse: text });
+      }
+      text += chunk.text ?? '';
+      onText?.(text);
+      // Grounding metadata can arrive on any chunk, usually the last
+      (chunk.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []).forEach(grounding => {
+        const url = grounding.web?.uri;
+        if (url && !sources.some(s => s.url === url)) {
+          sources.push({ title: grounding.web?.title || url, url });
+        }
+      });
+    }
+
+    if (!text) throw new AIError('EMPTY_RESPONSE', "No response from AI");
+    return { text, sources };
+  },
+});
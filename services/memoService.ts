@@ -0,0 +1,211 @@
+import { CalculationResult, FinancialParams, InvestmentMemo, MemoFact, MemoRecommendation, PropertyData, Scenario } from '../types';
+import { calculateMetrics, formatCurrency, formatPercent } from '../utils/calculations';
+import { calculateExitAnalysis } from '../utils/returns';
+import { SCENARIO_COMPARISON_FIELDS, formatComparisonValue } from '../utils/scenarios';
+import { AIProvider } from './aiProvider';
+import { AIError, withRetry } from './aiErrors';
+import { extractJSON } from './analysisService';
+
+// Investment memo written from a finished analysis. The model is handed the computed
+// figures as a fixed list of facts and asked to write prose around them; any figure in the
+// reply that is not one of those facts is reported rather than trusted.
+
+export const MEMO_RECOMMENDATIONS: { value: MemoRecommendation; label: string }[] = [
+  { value: 'BUY', label: 'Buy' },
+  { value: 'NEGOTIATE', label: 'Negotiate' },
+  { value: 'PASS', label: 'Pass' },
+];
+
+const COMP_TYPE_LABELS: Record<string, string> = { RENT: 'rent per month', SALE: 'sale price', STR: 'nightly rate' };
+
+// Every figure the memo is allowed to quote, formatted the way the dashboard shows it
+export const buildMemoFacts = (
+  property: PropertyData,
+  params: FinancialParams,
+  metrics: CalculationResult = calculateMetrics(property, params)
+): MemoFact[] => {
+  const exit = calculateExitAnalysis(property, params);
+  const facts: MemoFact[] = [
+    { key: 'address', label: 'Address', value: property.address },
+    { key: 'purchasePrice', label: 'Purchase Price', value: formatCurrency(property.listPrice) },
+    { key: 'numUnits', label: 'Units', value: String(property.numUnits) },
+    { key: 'vacancyRate', label: 'Vacancy Rate', value: formatPercent(property.vacancyRate) },
+    { key: 'downPaymentPercent', label: 'Down Payment', value: formatPercent(params.downPaymentPercent) },
+    { key: 'interestRate', label: 'Interest Rate', value: formatPercent(params.interestRate) },
+    { key: 'loanTermYears', label: 'Loan Term', value: `${params.loanTermYears} years` },
+    ...SCENARIO_COMPARISON_FIELDS.map(field => ({
+      key: field.key,
+      label: field.label,
+      value: formatComparisonValue(metrics[field.key], field.format),
+    })),
+    { key: 'holdPeriodYears', label: 'Hold Period', value: `${exit.holdPeriodYears} years` },
+    { key: 'salePrice', label: 'Projected Sale Price', value: formatCurrency(exit.salePrice) },
+    { key: 'leveredIrr', label: 'Levered IRR', value: exit.leveredIrr === null ? 'n/a' : formatPercent(exit.leveredIrr) },
+    { key: 'equityMultiple', label: 'Equity Multiple', value: formatComparisonValue(exit.equityMultiple, 'multiple') },
+    { key: 'totalProfit', label: 'Total Profit', value: formatCurrency(exit.totalProfit) },
+  ];
+  if (property.shortTermRental) {
+    facts.push({ key: 'averageDailyRate', label: 'Average Daily Rate', value: formatCurrency(property.shortTermRental.averageDailyRate) });
+  }
+  property.comps.forEach((comp, i) => {
+    facts.push({
+      key: `comp${i + 1}`,
+      label: `Comp ${i + 1}`,
+      value: `${comp.address}, ${comp.bedrooms} bed / ${comp.bathrooms} bath, ${COMP_TYPE_LABELS[comp.type]} ${formatCurrency(comp.price)}`,
+    });
+  });
+  if (property.description) {
+    facts.push({ key: 'description', label: 'Description', value: property.description });
+  }
+  return facts;
+};
+
+interface NumberToken {
+  text: string;
+  value: number; // In the units written, e.g. 1.2 for "$1.2M"
+  decimals: number;
+  scale: number; // 1000 for "k", 1,000,000 for "M"
+}
+
+// Figures such as "$540,000", "7.25%", "1.31x", "$1.2M" or "30", skipping digits that are
+// part of a word like "Q3"
+const NUMBER_PATTERN = /(?<![\w.])\$?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?\s*([kKmM](?![a-z])|%|x(?![a-z]))?/g;
+
+const numberTokens = (text: string): NumberToken[] =>
+  [...text.matchAll(NUMBER_PATTERN)].map(match => {
+    const [whole, digits, fraction = '', suffix = ''] = match;
+    return {
+      text: whole.trim(),
+      value: Number(`${digits.replace(/,/g, '')}.${fraction || 0}`),
+      decimals: fraction.length,
+      scale: /k/i.test(suffix) ? 1e3 : /m/i.test(suffix) ? 1e6 : 1,
+    };
+  });
+
+// A figure matches a fact when the fact, rounded the way the figure is written, gives the
+// same number: "$1.2M" matches $1,215,000 and "7.3%" matches 7.25%
+const matchesFact = (token: NumberToken, factValues: number[]) =>
+  factValues.some(v => (v / token.scale).toFixed(token.decimals) === token.value.toFixed(token.decimals));
+
+// The parts of the memo the model writes and the user can edit
+type MemoProse = Pick<InvestmentMemo, 'thesis' | 'keyMetrics' | 'risks' | 'compCommentary' | 'recommendationRationale'>;
+
+const memoText = (memo: MemoProse) => [
+  memo.thesis,
+  ...memo.keyMetrics.map(m => m.commentary),
+  ...memo.risks,
+  memo.compCommentary,
+  memo.recommendationRationale,
+].join('\n');
+
+// Figures in the memo that none of its facts account for. Small bare counts ("two of the
+// 3 comps", "2 risks") are not checked, since ordinary prose uses them freely.
+export const findUnverifiedNumbers = (memo: MemoProse, facts: MemoFact[]) => {
+  const factValues = facts.flatMap(f => numberTokens(`${f.label} ${f.value}`).map(t => t.value * t.scale));
+  const unverified = numberTokens(memoText(memo))
+    .filter(t => t.scale > 1 || t.decimals > 0 || /[$%x]/.test(t.text) || t.value >= 10)
+    .filter(t => !matchesFact(t, factValues))
+    .map(t => t.text);
+  return [...new Set(unverified)];
+};
+
+// Re-check the figures after the memo text has been edited
+export const verifyMemoNumbers = (memo: InvestmentMemo): InvestmentMemo => ({
+  ...memo,
+  unverifiedNumbers: findUnverifiedNumbers(memo, memo.facts),
+});
+
+// Facts whose value has changed since the memo was written, e.g. after editing the inputs
+export const changedMemoFacts = (memo: InvestmentMemo, current: MemoFact[]) =>
+  memo.facts.filter(fact => {
+    const now = current.find(f => f.key === fact.key);
+    return !now || now.value !== fact.value;
+  });
+
+const buildMemoPrompt = (property: PropertyData, facts: MemoFact[]) => `
+    Write an INVESTMENT MEMO for the ${property.shortTermRental ? 'short-term rental' : 'rental'} property at "${property.address}".
+
+    The analysis is already done. These are the only figures you may use, one per line as "key | label: value":
+    ${facts.map(f => `${f.key} | ${f.label}: ${f.value}`).join('\n    ')}
+
+    Rules:
+    - Quote figures exactly as written above. Do not round, convert or restate them in other units.
+    - Never introduce a number that is not in the list: no new estimates, totals, differences, ratios or market statistics.
+    - Where a point needs a figure that is not listed, make it qualitatively instead.
+    - Do not search the web; judge the deal only on the figures and comps above.
+
+    Return the memo strictly as a JSON object with these fields. Do not return any other text.
+    {
+      "thesis": string (2-4 sentences on why this deal is or isn't attractive),
+      "keyMetrics": [ { "key": string (a key from the list above), "commentary": string (one sentence on what the figure means for the deal) } ] (the 4-6 figures that matter most),
+      "risks": [ string ] (3-5 specific risks),
+      "compCommentary": string (how the property's price and rents compare with the comps),
+      "recommendation": "BUY" | "NEGOTIATE" | "PASS",
+      "recommendationRationale": string (1-3 sentences)
+    }
+  `;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const trimmedOrEmpty = (value: unknown) => isNonEmptyString(value) ? value.trim() : '';
+
+type WrittenMemo = MemoProse & Pick<InvestmentMemo, 'recommendation'>;
+
+// Required prose must be present; metric commentary on keys that are not facts is dropped
+const validateMemoResponse = (raw: unknown, facts: MemoFact[]): WrittenMemo => {
+  if (!isObject(raw)) {
+    throw new Error("AI memo is not a JSON object");
+  }
+  if (!isNonEmptyString(raw.thesis)) throw new Error("AI memo has no thesis");
+  const recommendation = MEMO_RECOMMENDATIONS.find(r => r.value === String(raw.recommendation).toUpperCase())?.value;
+  if (!recommendation) {
+    throw new Error(`AI memo has an unrecognised recommendation: ${JSON.stringify(raw.recommendation)}`);
+  }
+  const keyMetrics = Array.isArray(raw.keyMetrics) ? raw.keyMetrics : [];
+  const risks = Array.isArray(raw.risks) ? raw.risks : [];
+  return {
+    thesis: raw.thesis.trim(),
+    keyMetrics: keyMetrics
+      .filter((m): m is { key: string; commentary: string } =>
+        isObject(m) && facts.some(f => f.key === m.key) && isNonEmptyString(m.commentary))
+      .map(m => ({ key: m.key, commentary: m.commentary.trim() })),
+    risks: risks.filter(isNonEmptyString).map(r => r.trim()),
+    compCommentary: trimmedOrEmpty(raw.compCommentary),
+    recommendation,
+    recommendationRationale: trimmedOrEmpty(raw.recommendationRationale),
+  };
+};
+
+export const generateMemo = async (
+  provider: AIProvider,
+  scenario: Scenario,
+  signal?: AbortSignal
+): Promise<InvestmentMemo> => {
+  const facts = buildMemoFacts(scenario.property, scenario.params);
+  const response = await withRetry(
+    () => provider.generate({ prompt: buildMemoPrompt(scenario.property, facts), signal }),
+    signal
+  );
+
+  let written: WrittenMemo;
+  try {
+    written = validateMemoResponse(extractJSON(response.text), facts);
+  } catch (error) {
+    if (error instanceof AIError) throw error;
+    throw new AIError('PARSE_FAILURE', (error as Error).message, { rawResponse: response.text, cause: error });
+  }
+
+  return {
+    ...written,
+    facts,
+    unverifiedNumbers: findUnverifiedNumbers(written, facts),
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    model: provider.model,
+    generatedAt: Date.now(),
+  };
+};
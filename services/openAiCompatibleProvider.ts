@@ -0,0 +1,85 @@
+import { GroundingSource } from '../types';
+import { AIProvider, AIProviderConfig } from './aiProvider';
+import { AIError, errorKindFromStatus } from './aiErrors';
+
+// Search-enabled models attach URL citations as annotations
+const addCitations = (annotations: unknown, sources: GroundingSource[]) => {
+  if (!Array.isArray(annotations)) return;
+  annotations
+    .filter(a => a?.type === 'url_citation' && a.url_citation?.url)
+    .forEach(a => {
+      if (!sources.some(s => s.url === a.url_citation.url)) {
+        sources.push({ title: a.url_citation.title || a.url_citation.url, url: a.url_citation.url });
+      }
+    });
+};
+
+// Any server that speaks the OpenAI chat completions API: OpenAI itself, Azure, vLLM,
+// Ollama, LM Studio and most internal gateways. Web search is left to the model.
+export const createOpenAiCompatibleProvider = (config: AIProviderConfig): AIProvider => ({
+  id: 'OPENAI_COMPATIBLE',
+  model: config.model,
+  generate: async ({ prompt, signal, onText }) => {
+    const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.text();
+      throw new AIError(errorKindFromStatus(response.status, body), `AI request failed with status ${response.status}: ${body}`, {
+        status: response.status,
+      });
+    }
+
+    // Server-sent events: one "data: {json}" line per delta, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    const sources: GroundingSource[] = [];
+    const unreadable: string[] = []; // Non-JSON data lines, e.g. keep-alives or proxy error text
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(line => {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') return;
+        let chunk;
+        try {
+          chunk = JSON.parse(payload);
+        } catch (e) {
+          unreadable.push(payload);
+          return;
+        }
+        const choice = chunk?.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new AIError('SAFETY_BLOCK', "The provider's content filter blocked the response", { rawResponse: text });
+        }
+        const delta = choice?.delta;
+        text += delta?.content ?? '';
+        addCitations(delta?.annotations, sources);
+      });
+      onText?.(text);
+    }
+
+    if (!text && unreadable.length > 0) {
+      throw new AIError('PARSE_FAILURE', "The AI stream contained no readable data", { rawResponse: unreadable.join('\n') });
+    }
+    if (!text) throw new AIError('EMPTY_RESPONSE', "No response from AI");
+    return { text, sources };
+  },
+});
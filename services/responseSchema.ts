@@ -0,0 +1,250 @@
+import {
+  AIFieldDiagnostic,
+  AIResponseField,
+  CompListing,
+  FieldConfidence,
+  FieldProvenance,
+  GroundingSource,
+  RentalStrategy,
+} from '../types';
+
+// Runtime schema for the JSON the analysis prompt asks for. Values that are missing, of
+// the wrong type or outside a plausible range are left out of `values` and reported as
+// diagnostics, so the caller can fall back to a default and flag the input for review.
+
+interface ResponseFieldSchema {
+  key: AIResponseField;
+  label: string;
+  kind: 'number' | 'string' | 'comps' | 'occupancy';
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  required?: boolean; // Asked for again when the first reply does not provide it
+  hint: string; // JSON type description used in the follow-up prompt
+}
+
+export const RESPONSE_FIELDS: ResponseFieldSchema[] = [
+  { key: 'listPrice', label: 'Purchase price', kind: 'number', min: 1, max: 1_000_000_000, required: true, hint: 'number (estimated value in USD)' },
+  { key: 'numUnits', label: 'Units', kind: 'number', min: 1, max: 1000, integer: true, required: true, hint: 'number (count of rentable units)' },
+  { key: 'estimatedRentPerUnit', label: 'Rent per unit', kind: 'number', min: 1, max: 100_000, required: true, hint: 'number (monthly rent in USD)' },
+  { key: 'propertyTaxAnnual', label: 'Property tax', kind: 'number', min: 0, max: 10_000_000, required: true, hint: 'number (annual tax in USD)' },
+  { key: 'insuranceAnnual', label: 'Insurance', kind: 'number', min: 0, max: 10_000_000, required: true, hint: 'number (annual insurance in USD)' },
+  { key: 'hoaMonthly', label: 'HOA dues', kind: 'number', min: 0, max: 100_000, hint: 'number (monthly HOA dues, 0 if none)' },
+  { key: 'description', label: 'Description', kind: 'string', hint: 'string' },
+  { key: 'comps', label: 'Comps', kind: 'comps', hint: 'array' },
+];
+
+// Read from the nested "shortTermRental" object
+export const SHORT_TERM_RENTAL_RESPONSE_FIELDS: ResponseFieldSchema[] = [
+  { key: 'averageDailyRate', label: 'Average daily rate', kind: 'number', min: 1, max: 100_000, required: true, hint: 'number (nightly rate in USD)' },
+  { key: 'monthlyOccupancyPercent', label: 'Monthly occupancy', kind: 'occupancy', required: true, hint: '[12 numbers from January to December, each 0-100]' },
+  { key: 'cleaningFeePerStay', label: 'Cleaning fee', kind: 'number', min: 0, max: 10_000, hint: 'number (USD charged to the guest per stay)' },
+  { key: 'averageStayNights', label: 'Average stay', kind: 'number', min: 1, max: 365, hint: 'number (nights)' },
+];
+
+const COMP_TYPES: CompListing['type'][] = ['RENT', 'SALE', 'STR'];
+const CONFIDENCE_LEVELS: FieldConfidence[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+// Asked for in the "sources" object alongside each value
+const PROVENANCE_HINT = '{ "source": string (site or document the value came from), "url": string (page URL if available), "confidence": "HIGH" | "MEDIUM" | "LOW" }';
+
+// What each field holds once it has passed validation
+type ResponseFieldValue<K extends AIResponseField> =
+  K extends 'description' ? string
+  : K extends 'comps' ? CompListing[]
+  : K extends 'monthlyOccupancyPercent' ? number[]
+  : number;
+
+export type ResponseValues = { [K in AIResponseField]?: ResponseFieldValue<K> };
+
+export interface ValidatedResponse {
+  values: ResponseValues;
+  diagnostics: AIFieldDiagnostic[];
+  provenance: Partial<Record<AIResponseField, FieldProvenance>>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const describe = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 40 ? `${text.slice(0, 40)}…` : String(text);
+};
+
+const isValidComp = (comp: unknown): comp is CompListing =>
+  isObject(comp)
+  && typeof comp.address === 'string' && comp.address.trim() !== ''
+  && isFiniteNumber(comp.price) && comp.price > 0
+  && COMP_TYPES.includes(comp.type as CompListing['type']);
+
+const validateField = (
+  field: ResponseFieldSchema,
+  value: unknown
+): { value?: unknown; diagnostic?: AIFieldDiagnostic } => {
+  const flag = (issue: AIFieldDiagnostic['issue'], problem: string) => ({
+    diagnostic: { field: field.key, issue, message: `${field.label}: ${problem}` },
+  });
+
+  if (value === undefined || value === null || value === '') {
+    return flag('MISSING', 'not found in the AI response');
+  }
+
+  switch (field.kind) {
+    case 'number': {
+      if (!isFiniteNumber(value)) return flag('INVALID', `expected a number, got ${describe(value)}`);
+      if (field.integer && !Number.isInteger(value)) return flag('INVALID', `expected a whole number, got ${value}`);
+      if (field.min !== undefined && value < field.min) return flag('OUT_OF_RANGE', `${value} is below the minimum of ${field.min}`);
+      if (field.max !== undefined && value > field.max) return flag('OUT_OF_RANGE', `${value} is above the maximum of ${field.max}`);
+      return { value };
+    }
+    case 'string':
+      return typeof value === 'string' ? { value } : flag('INVALID', `expected text, got ${describe(value)}`);
+    case 'occupancy': {
+      if (!Array.isArray(value) || value.length !== 12 || !value.every(isFiniteNumber)) {
+        return flag('INVALID', `expected 12 monthly percentages, got ${describe(value)}`);
+      }
+      const outOfRange = value.find(v => v < 0 || v > 100);
+      if (outOfRange !== undefined) return flag('OUT_OF_RANGE', `${outOfRange}% is outside 0-100%`);
+      return { value };
+    }
+    case 'comps': {
+      if (!Array.isArray(value)) return flag('INVALID', `expected a list, got ${describe(value)}`);
+      // Malformed comps are dropped individually rather than discarding the whole list
+      const comps = value.filter(isValidComp);
+      if (comps.length < value.length) {
+        return { value: comps, ...flag('INVALID', `${value.length - comps.length} of ${value.length} comps were malformed and dropped`) };
+      }
+      return { value: comps };
+    }
+  }
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return '';
+  }
+};
+
+// Search tools often return redirect links titled with the site's domain, so a cited source
+// counts as grounded when its domain or name matches one of the search results
+const isGrounded = (source: string, url: string | undefined, groundingSources: GroundingSource[]) => {
+  const host = url ? hostOf(url) : '';
+  const name = source.toLowerCase().replace(/\s+/g, '');
+  return groundingSources.some(g => {
+    const domains = [hostOf(g.url), g.title.toLowerCase().replace(/^www\./, '')].filter(Boolean);
+    return (host !== '' && domains.includes(host)) || domains.some(d => d.startsWith(`${name}.`));
+  });
+};
+
+// Provenance is kept only for values that passed validation. An unrecognised confidence
+// is treated as LOW rather than trusted.
+const validateProvenance = (
+  fields: ResponseFieldSchema[],
+  rawSources: unknown,
+  groundingSources: GroundingSource[],
+  result: ValidatedResponse
+) => {
+  if (!isObject(rawSources)) return;
+  fields.forEach(field => {
+    const entry = rawSources[field.key];
+    if (!isObject(entry) || result.values[field.key] === undefined) return;
+    const url = typeof entry.url === 'string' && hostOf(entry.url) ? entry.url : undefined;
+    const source = typeof entry.source === 'string' && entry.source.trim() ? entry.source.trim() : url && hostOf(url);
+    if (!source) return;
+    const confidence = String(entry.confidence).toUpperCase() as FieldConfidence;
+    result.provenance[field.key] = {
+      source,
+      url,
+      confidence: CONFIDENCE_LEVELS.includes(confidence) ? confidence : 'LOW',
+      grounded: isGrounded(source, url, groundingSources),
+    };
+  });
+};
+
+const validateFields = (fields: ResponseFieldSchema[], source: unknown, result: ValidatedResponse) => {
+  const record = isObject(source) ? source : {};
+  fields.forEach(field => {
+    const { value, diagnostic } = validateField(field, record[field.key]);
+    // validateField only passes values of the type the field's kind calls for
+    if (value !== undefined) (result.values as Record<AIResponseField, unknown>)[field.key] = value;
+    if (diagnostic) result.diagnostics.push(diagnostic);
+  });
+};
+
+const schemaFor = (strategy: RentalStrategy) =>
+  strategy === 'SHORT_TERM' ? [...RESPONSE_FIELDS, ...SHORT_TERM_RENTAL_RESPONSE_FIELDS] : RESPONSE_FIELDS;
+
+const isShortTermRentalField = (key: AIResponseField) =>
+  SHORT_TERM_RENTAL_RESPONSE_FIELDS.some(f => f.key === key);
+
+export const validateAnalysisResponse = (
+  raw: unknown,
+  strategy: RentalStrategy,
+  groundingSources: GroundingSource[] = []
+): ValidatedResponse => {
+  if (!isObject(raw)) {
+    throw new Error("AI response is not a JSON object");
+  }
+  const result: ValidatedResponse = { values: {}, diagnostics: [], provenance: {} };
+  validateFields(RESPONSE_FIELDS, raw, result);
+  if (strategy === 'SHORT_TERM') {
+    validateFields(SHORT_TERM_RENTAL_RESPONSE_FIELDS, raw.shortTermRental, result);
+  }
+  validateProvenance(schemaFor(strategy), raw.sources, groundingSources, result);
+  return result;
+};
+
+// Required fields the first reply did not provide, worth asking for once more
+export const fieldsToRetry = (result: ValidatedResponse, strategy: RentalStrategy) =>
+  schemaFor(strategy).filter(field => field.required && result.values[field.key] === undefined);
+
+export const buildFollowUpPrompt = (address: string, fields: ResponseFieldSchema[]) => {
+  const line = (f: ResponseFieldSchema) => `"${f.key}": ${f.hint}`;
+  const topLevel = fields.filter(f => !isShortTermRentalField(f.key)).map(line);
+  const nested = fields.filter(f => isShortTermRentalField(f.key)).map(line);
+  const entries = nested.length > 0
+    ? [...topLevel, `"shortTermRental": { ${nested.join(', ')} }`]
+    : [...topLevel];
+  entries.push(`"sources": { ${fields.map(f => `"${f.key}": ${PROVENANCE_HINT}`).join(', ')} }`);
+
+  return `
+    For the property at "${address}", I still need the following values. Use web search and
+    make a highly educated estimate from local market data if an exact figure is not available.
+
+    Return the data strictly as a JSON object with only these fields. Do not return any other text.
+    { ${entries.join(', ')} }
+  `;
+};
+
+// Fill the gaps in the first reply from a follow-up reply. Diagnostics are kept only for
+// fields the follow-up could not supply either.
+export const mergeFollowUp = (
+  first: ValidatedResponse,
+  followUp: unknown,
+  fields: ResponseFieldSchema[],
+  groundingSources: GroundingSource[] = []
+): ValidatedResponse => {
+  const retried: ValidatedResponse = { values: {}, diagnostics: [], provenance: {} };
+  if (isObject(followUp)) {
+    validateFields(fields.filter(f => !isShortTermRentalField(f.key)), followUp, retried);
+    validateFields(fields.filter(f => isShortTermRentalField(f.key)), followUp.shortTermRental, retried);
+    validateProvenance(fields, followUp.sources, groundingSources, retried);
+  }
+  const values = { ...first.values, ...retried.values };
+  return {
+    values,
+    diagnostics: first.diagnostics.filter(d => values[d.field] === undefined || !fields.some(f => f.key === d.field)),
+    provenance: { ...first.provenance, ...retried.provenance },
+  };
+};
+
+// Prompt text asking for a source and confidence for each value the schema covers
+export const provenancePrompt = (strategy: RentalStrategy) => `
+      "sources": {
+        ${schemaFor(strategy).filter(f => f.kind === 'number' || f.kind === 'occupancy').map(f => `"${f.key}": ${PROVENANCE_HINT}`).join(',\n        ')}
+      }`;
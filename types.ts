@@ -3,21 +3,159 @@ export interface PropertyData {
   listPrice: number;
   numUnits: number;
   estimatedRentPerUnit: number;
-  unitRents: number[]; // Array of monthly rents for each unit
-  propertyTaxAnnual: number;
-  insuranceAnnual: number;
-  hoaMonthly: number;
-  maintenanceRate: number; // as a percentage of gross income (e.g., 0.05 for 5%)
+  rentRoll: RentRollUnit[]; // One entry per unit
+  otherIncome: OtherIncomeStream[]; // Income beyond unit rents
+  expenses: ExpenseItem[]; // Itemized operating expenses
   vacancyRate: number; // as a percentage (e.g., 0.03 for 3%)
+  shortTermRental?: ShortTermRental; // Set when underwriting as a nightly rental
   description?: string;
   imageUrl?: string;
   comps: CompListing[];
+  diagnostics?: AIFieldDiagnostic[]; // AI response fields that were missing, invalid or out of range
+  provenance?: Partial<Record<AIResponseField, FieldProvenance>>; // Where the model says each value came from
+  groundingSources?: GroundingSource[]; // Pages the search tool actually returned for the analysis
+  analyzedAt?: number; // When the AI analysis ran, in ms since epoch
+}
+
+// Fields the AI analysis is asked to return
+export type AIResponseField =
+  | 'listPrice'
+  | 'numUnits'
+  | 'estimatedRentPerUnit'
+  | 'propertyTaxAnnual'
+  | 'insuranceAnnual'
+  | 'hoaMonthly'
+  | 'description'
+  | 'comps'
+  | 'averageDailyRate'
+  | 'monthlyOccupancyPercent'
+  | 'cleaningFeePerStay'
+  | 'averageStayNights';
+
+export type AIFieldIssue = 'MISSING' | 'INVALID' | 'OUT_OF_RANGE';
+
+export type FieldConfidence = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface GroundingSource {
+  title: string;
+  url: string;
+}
+
+export interface FieldProvenance {
+  source: string; // Site or document named by the model, e.g. "Zillow"
+  url?: string;
+  confidence: FieldConfidence;
+  grounded: boolean; // The URL is one of the search results behind the response
+}
+
+export interface AIFieldDiagnostic {
+  field: AIResponseField;
+  issue: AIFieldIssue;
+  message: string; // Shown next to the input, e.g. "Not found; defaulted to $0"
+}
+
+// Fields replaced by the rent roll and the expense ledger. Analyses saved or shared in
+// this shape are converted to `rentRoll` and `expenses` when they are loaded.
+export interface LegacyPropertyFields {
+  unitRents?: number[]; // monthly rent for each unit
+  propertyTaxAnnual?: number;
+  insuranceAnnual?: number;
+  hoaMonthly?: number;
+  maintenanceRate?: number; // percentage of effective gross income
+}
+
+export interface RentRollUnit {
+  id: string;
+  label: string;
+  bedrooms: number;
+  bathrooms: number;
+  squareFeet: number;
+  currentRent: number; // monthly rent on the in-place lease
+  marketRent: number; // monthly
+  leaseStart?: string; // YYYY-MM-DD
+  leaseEnd?: string; // YYYY-MM-DD
+  occupied: boolean;
+}
+
+export type OtherIncomeType = 'PARKING' | 'LAUNDRY' | 'STORAGE' | 'PET_FEES' | 'RUBS' | 'OTHER';
+
+export interface OtherIncomeStream {
+  id: string;
+  name: string;
+  type: OtherIncomeType;
+  monthlyAmount: number; // gross, before vacancy and collection loss
+  vacancyPercent: number; // 0-100, vacancy and collection loss for this stream
+  growthPercent: number; // 0-100, annual
+}
+
+// Which market the analysis is gathered and underwritten for
+export type RentalStrategy = 'LONG_TERM' | 'SHORT_TERM';
+
+// Milestones reported while an analysis streams in
+export type AnalysisStage = 'VALUATION' | 'UNITS' | 'COMPS' | 'TAXES' | 'NIGHTLY_RATES';
+
+// Nightly rental assumptions. Every unit is rented on the same terms, and seasonal
+// occupancy takes the place of the rent roll and the vacancy rate.
+export interface ShortTermRental {
+  averageDailyRate: number; // per booked night
+  monthlyOccupancyPercent: number[]; // 0-100, January through December
+  averageStayNights: number;
+  cleaningFeePerStay: number; // charged to the guest
+  cleaningCostPerStay: number; // paid to the cleaner
+  platformFeePercent: number; // 0-100, of booking revenue including cleaning fees
+  managementFeePercent: number; // 0-100, of nightly revenue
+  utilitiesMonthly: number; // per unit, paid by the owner
+  furnishingCost: number; // per unit, paid in cash at purchase
+}
+
+// In-place underwrites on the leases as they stand, market on what the units would rent for today
+export type RentBasis = 'IN_PLACE' | 'MARKET';
+
+export interface RentRollSummary {
+  unitCount: number;
+  occupiedUnits: number;
+  occupancyPercent: number; // physical occupancy, 0-100
+  inPlaceMonthlyRent: number; // occupied units at current rent
+  marketMonthlyRent: number; // every unit at market rent
+  lossToLeaseMonthly: number; // market minus current rent across occupied units
+  lossToLeasePercent: number; // of the occupied units' market rent
+  squareFeet: number;
+  inPlaceRentPerSqFt: number; // monthly, occupied units
+  marketRentPerSqFt: number; // monthly, every unit
+  upcomingExpirations: RentRollUnit[]; // leases ending within the expiration window, soonest first
+}
+
+export type ExpenseCategory =
+  | 'TAXES'
+  | 'INSURANCE'
+  | 'HOA'
+  | 'MANAGEMENT'
+  | 'MAINTENANCE'
+  | 'UTILITIES'
+  | 'CAPEX_RESERVES'
+  | 'LANDSCAPING'
+  | 'LEGAL'
+  | 'OTHER';
+
+export type ExpenseAmountType =
+  | 'ANNUAL' // fixed dollars per year
+  | 'MONTHLY' // fixed dollars per month
+  | 'PERCENT_EGI' // percentage of effective gross income
+  | 'PERCENT_GROSS_RENT' // percentage of gross potential rent
+  | 'PER_UNIT'; // dollars per unit per year
+
+export interface ExpenseItem {
+  id: string;
+  name: string;
+  category: ExpenseCategory;
+  amountType: ExpenseAmountType;
+  amount: number; // dollars, or 0-100 for the percentage types
 }
 
 export interface CompListing {
   address: string;
   price: number;
-  type: 'RENT' | 'SALE';
+  type: 'RENT' | 'SALE' | 'STR'; // STR comps are priced per night
   bedrooms: number;
   bathrooms: number;
   source?: string;
@@ -29,10 +167,104 @@ export interface FinancialParams {
   interestRate: number; // 0-100
   loanTermYears: number;
   closingCostsPercent: number; // 0-100
+  rentBasis?: RentBasis; // rents gross income is built from, defaults to in-place
+  // Multi-year projection assumptions (optional so older saved/shared analyses still load)
+  rentGrowthPercent?: number; // annual, 0-100
+  expenseGrowthPercent?: number; // annual, 0-100
+  appreciationPercent?: number; // annual, 0-100
+  holdPeriodYears?: number; // 1-30
+  // Exit sale assumptions
+  exitValuationMethod?: 'APPRECIATION' | 'CAP_RATE';
+  exitCapRatePercent?: number; // 0-100, applied to forward NOI
+  sellingCostsPercent?: number; // 0-100 of sale price
+  discountRatePercent?: number; // 0-100, for NPV
+  // Prepayment
+  extraPrincipalMonthly?: number; // recurring extra principal with every payment
+  oneTimePrepayments?: OneTimePrepayment[];
+  // Advanced financing (all optional; omitted means one fully amortizing fixed-rate loan)
+  interestOnlyYears?: number; // interest-only period at the start of the loan
+  rateResets?: RateReset[]; // ARM rate changes, payment re-amortizes at each reset
+  balloonYears?: number; // remaining balance due at the end of this year
+  pointsPercent?: number; // discount points, % of first loan amount
+  originationFeePercent?: number; // % of first loan amount
+  pmiRatePercent?: number; // annual % of the original first loan, charged while LTV > 80%
+  secondLoan?: SecondLoan;
+  // Income tax (all optional; see DEFAULT_TAX_ASSUMPTIONS)
+  landValuePercent?: number; // 0-100 of purchase price, not depreciable
+  depreciationSchedule?: DepreciationSchedule;
+  costSegregationPercent?: number; // 0-100 of the building basis reclassified as short-life property
+  bonusDepreciationPercent?: number; // 0-100 of the reclassified property expensed in year one
+  marginalTaxRatePercent?: number; // 0-100
+  deductMortgageInterest?: boolean;
+  // Value-add / BRRRR plan; the loan terms above become the acquisition loan
+  valueAdd?: ValueAddPlan;
+}
+
+export interface RehabItem {
+  id: string;
+  name: string;
+  cost: number;
+}
+
+// Buy, rehab, rent and refinance. Rehab and holding costs are paid in cash.
+export interface ValueAddPlan {
+  rehabItems: RehabItem[];
+  rehabMonths: number; // from closing until the units are re-leased and the loan refinanced
+  holdingCostsMonthly: number; // utilities, insurance, etc. during rehab, excluding debt service
+  afterRepairValue: number;
+  postRehabRents: Record<string, number>; // monthly rent by rent roll unit id, market rent when missing
+  refinanceLtvPercent: number; // 0-100 of after-repair value
+  refinanceRate: number; // 0-100
+  refinanceTermYears: number;
+  refinanceClosingCostsPercent: number; // 0-100 of the new loan
+}
+
+export interface ValueAddAnalysis {
+  acquisitionCash: number; // cash due at the purchase closing
+  rehabBudget: number;
+  holdingCosts: number; // monthly holding costs over the rehab period
+  rehabDebtService: number; // acquisition loan payments during the rehab period
+  totalCashInvested: number; // acquisition cash, rehab, holding costs and rehab debt service
+  allInCost: number; // purchase, closing, loan fees, rehab and carrying costs
+  refinanceLoanAmount: number;
+  acquisitionPayoff: number;
+  refinanceClosingCosts: number;
+  cashOutProceeds: number; // new loan less payoff and closing costs
+  cashLeftInDeal: number; // negative when the refinance returns more than was put in
+  postRefiNoi: number;
+  postRefiDebtService: number;
+  postRefiCashFlow: number;
+  postRefiCashOnCash: number | null; // Percentage; null when no cash is left in the deal
+  postRefiDscr: number;
+}
+
+// Straight-line recovery period: residential rental 27.5 years, nonresidential 39 years
+export type DepreciationSchedule = 'RESIDENTIAL' | 'COMMERCIAL';
+
+export interface OneTimePrepayment {
+  month: number; // 1-based payment number the extra principal is applied with
+  amount: number;
+}
+
+export interface RateReset {
+  year: number; // new rate applies from the first payment of this year
+  rate: number; // 0-100
+}
+
+// Subordinate financing such as a seller-carry second. It funds part of the down payment,
+// so cash due at closing drops by the second loan amount.
+export interface SecondLoan {
+  amountPercent: number; // 0-100 of purchase price
+  interestRate: number; // 0-100
+  termYears: number; // amortization period
+  interestOnly: boolean;
+  balloonYears?: number;
 }
 
 export interface CalculationResult {
-  grossAnnualIncome: number;
+  grossAnnualIncome: number; // Rent plus other income, before vacancy
+  grossRentalIncome: number;
+  otherIncome: number; // Gross annual other income
   effectiveGrossIncome: number;
   totalOperatingExpenses: number;
   noi: number; // Net Operating Income
@@ -42,12 +274,285 @@ export interface CalculationResult {
   annualCashFlow: number;
   cashOnCashReturn: number; // Percentage
   totalInitialInvestment: number;
+  // Lender underwriting
+  totalLoanAmount: number;
+  dscr: number; // NOI / annual debt service, 0 when there is no debt
+  grossRentMultiplier: number; // Purchase price / gross annual rent, before vacancy and excluding other income
+  operatingExpenseRatio: number; // Percentage of effective gross income
+  breakEvenOccupancy: number; // Percentage of gross income needed to cover expenses and debt
+  pricePerUnit: number;
+  debtYield: number; // Percentage, NOI / total loan amount
+}
+
+// A null threshold is not checked
+export interface LenderThresholds {
+  minDscr: number | null;
+  minDebtYield: number | null; // Percentage
+  maxBreakEvenOccupancy: number | null; // Percentage
+  maxOperatingExpenseRatio: number | null; // Percentage
+  maxGrossRentMultiplier: number | null;
+}
+
+export interface UnderwritingCheck {
+  key: keyof LenderThresholds;
+  label: string;
+  value: number;
+  threshold: number;
+  passes: boolean;
+}
+
+// A named set of acquisition criteria ("buy box"). A null criterion is not checked.
+export interface BuyBox {
+  id: string;
+  name: string;
+  minCapRate: number | null; // Percentage
+  minCashOnCash: number | null; // Percentage
+  maxPricePerUnit: number | null;
+  minUnits: number | null;
+  stressRateIncrease: number | null; // Percentage points added to every loan rate; cash flow must stay positive
+}
+
+export type BuyBoxCriterion = Exclude<keyof BuyBox, 'id' | 'name'>;
+
+export interface BuyBoxCheck {
+  key: BuyBoxCriterion;
+  value: number;
+  threshold: number;
+  passes: boolean;
+  reason: string; // Why the check fails, e.g. "Cap rate 5.20% is below 6%"
+}
+
+export interface BuyBoxResult {
+  buyBoxId: string;
+  name: string;
+  passes: boolean;
+  checks: BuyBoxCheck[];
+}
+
+export interface LoanTerms {
+  amount: number;
+  interestRate: number; // 0-100, initial rate
+  termYears: number;
+  interestOnlyMonths?: number;
+  rateResets?: { month: number; rate: number }[];
+  balloonMonth?: number;
+  pmiMonthly?: number;
+  pmiUntilBalance?: number; // PMI stops once the balance falls to this amount
+  extraPrincipalMonthly?: number;
+  oneTimePrepayments?: OneTimePrepayment[];
+}
+
+export interface AmortizationPayment {
+  month: number; // 1-based payment number
+  payment: number; // interest + principal + PMI, including any extra principal and balloon
+  interest: number;
+  principal: number; // scheduled principal, including a balloon payoff
+  extraPrincipal: number;
+  pmi: number;
+  rate: number; // 0-100, rate in effect for this payment
+  cumulativeInterest: number;
+  balance: number; // remaining after this payment
+}
+
+export interface AmortizationYear {
+  year: number; // 1-based
+  payments: number;
+  interest: number;
+  principal: number; // including extra principal
+  extraPrincipal: number;
+  pmi: number;
+  cumulativeInterest: number;
+  endingBalance: number;
+}
+
+export interface AmortizationSchedule {
+  loanAmount: number;
+  scheduledPayment: number; // required monthly P&I on the first payment
+  payments: AmortizationPayment[];
+  balloonPayment: number; // lump sum due at the balloon date, 0 if none
+  annual: AmortizationYear[];
+  totalInterest: number;
+  payoffMonth: number; // number of payments until the balance reaches zero
+}
+
+export interface ProjectionYear {
+  year: number; // 1-based
+  grossIncome: number;
+  effectiveGrossIncome: number;
+  operatingExpenses: number;
+  noi: number;
+  debtService: number; // Required payments only
+  prepayments: number; // Extra principal and balloon payoffs
+  cashFlow: number; // NOI less required debt service
+  cumulativeCashFlow: number;
+  propertyValue: number; // end of year
+  loanBalance: number; // end of year
+  equity: number; // propertyValue - loanBalance
+}
+
+// Year-one income tax picture. A negative taxable income is a paper loss that offsets
+// the investor's other income, so the tax is negative and shows up as a saving.
+export interface TaxAnalysis {
+  depreciableBasis: number;
+  buildingDepreciation: number;
+  costSegregationDepreciation: number; // bonus plus straight-line on the reclassified property
+  totalDepreciation: number;
+  deductibleInterest: number;
+  financingCosts: number; // amortized points and fees plus PMI
+  taxableIncome: number;
+  incomeTax: number; // negative when the loss saves tax
+  afterTaxCashFlow: number;
+  afterTaxCashOnCash: number; // Percentage
+}
+
+export interface ExitAnalysis {
+  holdPeriodYears: number;
+  salePrice: number;
+  sellingCosts: number;
+  loanPayoff: number;
+  netSaleProceeds: number; // after selling costs and loan payoff
+  leveredIrr: number | null; // Percentage, null when the cash flows have no IRR
+  unleveredIrr: number | null; // Percentage
+  npv: number; // Levered, at discountRatePercent
+  equityMultiple: number; // Total levered distributions / initial investment
+  totalProfit: number;
+}
+
+export interface SensitivityGrid {
+  rowValues: number[];
+  colValues: number[];
+  cells: number[][]; // cells[row][col]
+  baseValue: number; // output at the current inputs
+}
+
+export type SimulationVariableKey =
+  | 'rentPerUnit'
+  | 'vacancyRate'
+  | 'maintenanceAnnual'
+  | 'taxesAnnual'
+  | 'interestRate';
+
+export type DistributionType = 'RANGE' | 'NORMAL' | 'TRIANGULAR';
+
+export interface SimulationVariable {
+  key: SimulationVariableKey;
+  enabled: boolean;
+  type: DistributionType;
+  min: number; // RANGE and TRIANGULAR lower bound
+  mode: number; // TRIANGULAR most likely value, NORMAL mean
+  max: number; // RANGE and TRIANGULAR upper bound
+  stdDev: number; // NORMAL only
+}
+
+export interface PercentileSummary {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  annualCashFlow: PercentileSummary;
+  cashOnCashReturn: PercentileSummary; // Percentage
+  probabilityNegativeCashFlow: number; // 0-1
+  histogram: HistogramBin[]; // annual cash flow
+}
+
+export type GoalSeekMetric = 'capRate' | 'cashOnCashReturn' | 'monthlyCashFlow' | 'dscr';
+
+export type GoalSeekVariable = 'listPrice' | 'rentPerUnit' | 'interestRate';
+
+export interface GoalSeekResult {
+  value: number | null; // null when no value of the variable reaches the target
+  achieved: number; // metric at the solved value
+  capped: boolean; // true when the solver hit its search limit rather than the target
+}
+
+// One named set of assumptions for a property, e.g. "Base" or "25% down"
+export interface Scenario {
+  id: string;
+  name: string;
+  property: PropertyData;
+  params: FinancialParams;
 }
 
 export interface SavedAnalysis {
   id: string;
   timestamp: number;
   address: string;
-  property: PropertyData;
-  params: FinancialParams;
+  scenarios: Scenario[]; // Always at least one
+  activeScenarioId: string;
+  owned?: boolean; // Counted in the portfolio roll-up
+  exit?: ExitAnalysis; // Snapshot of the active scenario's return metrics when last saved
+  memo?: InvestmentMemo;
+}
+
+export type MemoRecommendation = 'BUY' | 'NEGOTIATE' | 'PASS';
+
+// One computed figure the memo may quote, formatted exactly as the model was given it
+export interface MemoFact {
+  key: string;
+  label: string;
+  value: string;
+}
+
+// Investment memo written by the AI from the finished analysis. The model only writes the
+// prose; every figure it may quote comes from `facts`.
+export interface InvestmentMemo {
+  thesis: string;
+  keyMetrics: { key: string; commentary: string }[]; // Keys into facts
+  risks: string[];
+  compCommentary: string;
+  recommendation: MemoRecommendation;
+  recommendationRationale: string;
+  facts: MemoFact[]; // Snapshot of the figures the memo was written from
+  unverifiedNumbers: string[]; // Figures in the text that match none of the facts
+  scenarioId: string;
+  scenarioName: string;
+  model: string;
+  generatedAt: number; // ms since epoch
+}
+
+// One owned property in the portfolio, valued at its purchase price on its active scenario
+export interface PortfolioHolding {
+  analysisId: string;
+  address: string;
+  scenarioName: string;
+  value: number;
+  debt: number; // Original loan amount
+  equity: number;
+  effectiveGrossIncome: number;
+  noi: number;
+  annualDebtService: number;
+  annualCashFlow: number;
+  capRate: number; // Percentage
+  incomeShare: number; // Percentage of the portfolio's effective gross income
+}
+
+export interface PortfolioSummary {
+  holdings: PortfolioHolding[];
+  totalValue: number;
+  totalDebt: number;
+  totalEquity: number;
+  totalIncome: number; // Effective gross income
+  totalNoi: number;
+  totalDebtService: number;
+  monthlyCashFlow: number;
+  weightedCapRate: number; // Percentage, total NOI / total value
+  leverage: number; // Percentage, total debt / total value
+  dscr: number; // Combined NOI / combined debt service, 0 when there is no debt
+}
+
+// Analyses saved before scenarios held a single property and params pair. They are
+// converted to a one-scenario analysis when loaded.
+export interface LegacySavedAnalysisFields {
+  property?: PropertyData;
+  params?: FinancialParams;
 }
@@ -0,0 +1,249 @@
+import {
+  PropertyData,
+  FinancialParams,
+  AmortizationPayment,
+  AmortizationYear,
+  AmortizationSchedule,
+  LoanTerms,
+} from '../types';
+
+// Balances below half a cent are treated as paid off to absorb floating point drift
+const PAID_OFF_EPSILON = 0.005;
+
+// PMI is normally cancelled once the loan reaches 80% of the original value
+const PMI_LTV_THRESHOLD = 0.8;
+
+export const calculateMonthlyPayment = (
+  loanAmount: number,
+  interestRate: number,
+  loanTermYears: number
+): number => {
+  if (loanAmount <= 0 || loanTermYears <= 0) return 0;
+
+  const numberOfPayments = loanTermYears * 12;
+  if (interestRate <= 0) return loanAmount / numberOfPayments;
+
+  const monthlyRate = interestRate / 100 / 12;
+  // Standard amortization formula
+  return (
+    (loanAmount * monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) /
+    (Math.pow(1 + monthlyRate, numberOfPayments) - 1)
+  );
+};
+
+// `horizonMonths` stops the schedule early when only the first payments are needed
+export const generateAmortizationSchedule = (
+  terms: LoanTerms,
+  horizonMonths?: number
+): AmortizationSchedule => {
+  const numberOfPayments = Math.round(terms.termYears * 12);
+  const interestOnlyMonths = Math.min(numberOfPayments, Math.max(0, terms.interestOnlyMonths || 0));
+  // Anything still owed at the balloon date or maturity (e.g. an interest-only note) is paid in full then
+  const balloonMonth = terms.balloonMonth && terms.balloonMonth > 0 ? terms.balloonMonth : Infinity;
+  const maturityMonth = Math.min(numberOfPayments, balloonMonth);
+  const lastMonth = Math.min(maturityMonth, horizonMonths ?? Infinity);
+  const recurringExtra = Math.max(0, terms.extraPrincipalMonthly || 0);
+
+  // Several one-time payments may land on the same month
+  const oneTimeByMonth = new Map<number, number>();
+  (terms.oneTimePrepayments || []).forEach(({ month, amount }) => {
+    if (month >= 1 && amount > 0) {
+      oneTimeByMonth.set(month, (oneTimeByMonth.get(month) || 0) + amount);
+    }
+  });
+  const resetByMonth = new Map<number, number>();
+  (terms.rateResets || []).forEach(({ month, rate }) => {
+    if (month > 1) resetByMonth.set(month, rate);
+  });
+
+  const payments: AmortizationPayment[] = [];
+  let balance = Math.max(0, terms.amount);
+  let rate = terms.interestRate;
+  let cumulativeInterest = 0;
+  let balloonPayment = 0;
+
+  // Required P&I, recomputed whenever the amortization basis changes
+  const amortizingPayment = (month: number) =>
+    calculateMonthlyPayment(balance, rate, (numberOfPayments - month + 1) / 12);
+  let scheduledPrincipalAndInterest =
+    interestOnlyMonths > 0 ? balance * (Math.max(0, rate) / 100 / 12) : amortizingPayment(1);
+  const firstPayment = scheduledPrincipalAndInterest;
+
+  for (let month = 1; month <= lastMonth && balance > PAID_OFF_EPSILON; month++) {
+    const rateChanged = resetByMonth.has(month);
+    if (rateChanged) rate = resetByMonth.get(month)!;
+    if (month > interestOnlyMonths && (rateChanged || month === interestOnlyMonths + 1)) {
+      scheduledPrincipalAndInterest = amortizingPayment(month);
+    }
+
+    const interest = balance * (Math.max(0, rate) / 100 / 12);
+    let principal = month <= interestOnlyMonths
+      ? 0
+      : Math.min(balance, scheduledPrincipalAndInterest - interest);
+    balance -= principal;
+
+    const extraPrincipal = Math.min(balance, recurringExtra + (oneTimeByMonth.get(month) || 0));
+    balance -= extraPrincipal;
+
+    // PMI is charged on this payment if the balance going in was still above the threshold
+    const pmi =
+      terms.pmiMonthly && balance + principal + extraPrincipal > (terms.pmiUntilBalance ?? 0)
+        ? terms.pmiMonthly
+        : 0;
+
+    if (month === maturityMonth && balance > PAID_OFF_EPSILON) {
+      balloonPayment = balance;
+      principal += balance;
+      balance = 0;
+    }
+    cumulativeInterest += interest;
+
+    payments.push({
+      month,
+      payment: interest + principal + extraPrincipal + pmi,
+      interest,
+      principal,
+      extraPrincipal,
+      pmi,
+      rate,
+      cumulativeInterest,
+      balance: balance > PAID_OFF_EPSILON ? balance : 0,
+    });
+  }
+
+  return {
+    loanAmount: terms.amount,
+    scheduledPayment: firstPayment,
+    payments,
+    annual: rollupByYear(payments),
+    totalInterest: cumulativeInterest,
+    payoffMonth: payments.length,
+    balloonPayment,
+  };
+};
+
+const rollupByYear = (payments: AmortizationPayment[]): AmortizationYear[] => {
+  const years: AmortizationYear[] = [];
+
+  payments.forEach((p) => {
+    const year = Math.ceil(p.month / 12);
+    let row = years[year - 1];
+    if (!row) {
+      row = {
+        year,
+        payments: 0,
+        interest: 0,
+        principal: 0,
+        extraPrincipal: 0,
+        pmi: 0,
+        cumulativeInterest: 0,
+        endingBalance: 0,
+      };
+      years.push(row);
+    }
+    row.payments += p.payment;
+    row.interest += p.interest;
+    row.principal += p.principal + p.extraPrincipal;
+    row.extraPrincipal += p.extraPrincipal;
+    row.pmi += p.pmi;
+    row.cumulativeInterest = p.cumulativeInterest;
+    row.endingBalance = p.balance;
+  });
+
+  return years;
+};
+
+// Split of the purchase price between cash, the first loan and any second loan
+export const resolveFinancing = (property: PropertyData, params: FinancialParams) => {
+  const { listPrice } = property;
+  const firstLoanAmount = Math.max(0, listPrice * (1 - params.downPaymentPercent / 100));
+  const downPayment = listPrice - firstLoanAmount;
+  const secondLoanAmount = params.secondLoan
+    ? Math.min(downPayment, Math.max(0, listPrice * (params.secondLoan.amountPercent / 100)))
+    : 0;
+  const loanFees =
+    firstLoanAmount * (((params.pointsPercent || 0) + (params.originationFeePercent || 0)) / 100);
+
+  return {
+    firstLoanAmount,
+    secondLoanAmount,
+    cashDownPayment: downPayment - secondLoanAmount,
+    loanFees,
+  };
+};
+
+export const firstLoanTerms = (property: PropertyData, params: FinancialParams): LoanTerms => {
+  const { firstLoanAmount } = resolveFinancing(property, params);
+  const needsPmi = (params.pmiRatePercent || 0) > 0 && params.downPaymentPercent < 20;
+
+  return {
+    amount: firstLoanAmount,
+    interestRate: params.interestRate,
+    termYears: params.loanTermYears,
+    interestOnlyMonths: (params.interestOnlyYears || 0) * 12,
+    rateResets: (params.rateResets || []).map(r => ({ month: (r.year - 1) * 12 + 1, rate: r.rate })),
+    balloonMonth: params.balloonYears ? params.balloonYears * 12 : undefined,
+    pmiMonthly: needsPmi ? (firstLoanAmount * (params.pmiRatePercent || 0)) / 100 / 12 : 0,
+    pmiUntilBalance: property.listPrice * PMI_LTV_THRESHOLD,
+    extraPrincipalMonthly: params.extraPrincipalMonthly,
+    oneTimePrepayments: params.oneTimePrepayments,
+  };
+};
+
+export const secondLoanTerms = (property: PropertyData, params: FinancialParams): LoanTerms | null => {
+  const { secondLoanAmount } = resolveFinancing(property, params);
+  const second = params.secondLoan;
+  if (!second || secondLoanAmount <= 0) return null;
+
+  return {
+    amount: secondLoanAmount,
+    interestRate: second.interestRate,
+    termYears: second.termYears,
+    interestOnlyMonths: second.interestOnly ? second.termYears * 12 : 0,
+    balloonMonth: second.balloonYears ? second.balloonYears * 12 : undefined,
+  };
+};
+
+// Schedule for the first-lien acquisition loan described by the analysis inputs
+export const buildLoanSchedule = (
+  property: PropertyData,
+  params: FinancialParams,
+  horizonMonths?: number
+): AmortizationSchedule => generateAmortizationSchedule(firstLoanTerms(property, params), horizonMonths);
+
+export const buildSecondLoanSchedule = (
+  property: PropertyData,
+  params: FinancialParams,
+  horizonMonths?: number
+): AmortizationSchedule | null => {
+  const terms = secondLoanTerms(property, params);
+  return terms ? generateAmortizationSchedule(terms, horizonMonths) : null;
+};
+
+// Extra principal and any balloon payoff made in `year`. They come out of the investor's
+// pocket by choice or at maturity, so they are kept apart from the required debt service.
+export const prepaymentsForYear = (schedule: AmortizationSchedule, year: number): number => {
+  const row = schedule.annual[year - 1];
+  if (!row) return 0;
+  // The balloon is always the final payment
+  const balloonYear = schedule.balloonPayment > 0 ? Math.ceil(schedule.payments.length / 12) : 0;
+  return row.extraPrincipal + (year === balloonYear ? schedule.balloonPayment : 0);
+};
+
+// Required payments in `year`, excluding prepayments and any balloon payoff
+export const scheduledDebtServiceForYear = (schedule: AmortizationSchedule, year: number): number =>
+  (schedule.annual[year - 1]?.payments ?? 0) - prepaymentsForYear(schedule, year);
+
+// Remaining balance after `year` full years of payments
+export const balanceAfterYear = (schedule: AmortizationSchedule, year: number): number => {
+  if (year <= 0) return schedule.loanAmount;
+  const row = schedule.annual[year - 1];
+  return row ? row.endingBalance : 0;
+};
+
+// Remaining balance after `month` payments
+export const balanceAfterMonth = (schedule: AmortizationSchedule, month: number): number => {
+  if (month <= 0) return schedule.loanAmount;
+  const row = schedule.payments[month - 1];
+  return row ? row.balance : 0;
+};
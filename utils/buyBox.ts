@@ -0,0 +1,94 @@
+import { PropertyData, FinancialParams, BuyBox, BuyBoxCriterion, BuyBoxCheck, BuyBoxResult } from '../types';
+import { calculateMetrics, formatCurrency, formatPercent } from './calculations';
+
+export const BUY_BOXES_STORAGE_KEY = 'caprate_buy_boxes';
+
+export const createBuyBox = (changes: Partial<BuyBox> = {}): BuyBox => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name: 'Acquisition Criteria',
+  minCapRate: 6,
+  minCashOnCash: 8,
+  maxPricePerUnit: null,
+  minUnits: null,
+  stressRateIncrease: 2,
+  ...changes,
+});
+
+export const BUY_BOX_FIELDS: {
+  key: BuyBoxCriterion;
+  label: string;
+  direction: 'min' | 'max';
+  unit: '%' | '$' | 'units' | 'pts';
+}[] = [
+  { key: 'minCapRate', label: 'Cap Rate', direction: 'min', unit: '%' },
+  { key: 'minCashOnCash', label: 'Cash on Cash', direction: 'min', unit: '%' },
+  { key: 'maxPricePerUnit', label: 'Price per Unit', direction: 'max', unit: '$' },
+  { key: 'minUnits', label: 'Units', direction: 'min', unit: 'units' },
+  { key: 'stressRateIncrease', label: 'Rate Stress', direction: 'min', unit: 'pts' },
+];
+
+// Merge each stored buy box over the defaults so newly added criteria get a value
+export const loadBuyBoxes = (raw: string | null): BuyBox[] => {
+  if (!raw) return [createBuyBox()];
+  try {
+    const parsed: Partial<BuyBox>[] = JSON.parse(raw);
+    return parsed.map(box => createBuyBox(box));
+  } catch (e) {
+    console.error("Failed to parse buy boxes", e);
+    return [createBuyBox()];
+  }
+};
+
+// Every lien's rate raised by `increase` percentage points, including future ARM resets
+export const stressedParams = (params: FinancialParams, increase: number): FinancialParams => ({
+  ...params,
+  interestRate: params.interestRate + increase,
+  rateResets: params.rateResets?.map(reset => ({ ...reset, rate: reset.rate + increase })),
+  secondLoan: params.secondLoan && { ...params.secondLoan, interestRate: params.secondLoan.interestRate + increase },
+});
+
+export const evaluateBuyBox = (property: PropertyData, params: FinancialParams, box: BuyBox): BuyBoxResult => {
+  const metrics = calculateMetrics(property, params);
+
+  const checks: BuyBoxCheck[] = BUY_BOX_FIELDS.flatMap((field): BuyBoxCheck[] => {
+    const threshold = box[field.key];
+    if (threshold === null) return [];
+
+    switch (field.key) {
+      case 'minCapRate':
+        return [{
+          key: field.key, value: metrics.capRate, threshold, passes: metrics.capRate >= threshold,
+          reason: `Cap rate ${formatPercent(metrics.capRate)} is below ${threshold}%`,
+        }];
+      case 'minCashOnCash':
+        return [{
+          key: field.key, value: metrics.cashOnCashReturn, threshold, passes: metrics.cashOnCashReturn >= threshold,
+          reason: `Cash on cash ${formatPercent(metrics.cashOnCashReturn)} is below ${threshold}%`,
+        }];
+      case 'maxPricePerUnit':
+        return [{
+          key: field.key, value: metrics.pricePerUnit, threshold, passes: metrics.pricePerUnit <= threshold,
+          reason: `Price per unit ${formatCurrency(metrics.pricePerUnit)} is above ${formatCurrency(threshold)}`,
+        }];
+      case 'minUnits':
+        return [{
+          key: field.key, value: property.numUnits, threshold, passes: property.numUnits >= threshold,
+          reason: `${property.numUnits} ${property.numUnits === 1 ? 'unit' : 'units'} is fewer than ${threshold}`,
+        }];
+      case 'stressRateIncrease': {
+        // All-cash deals have no rate to stress
+        if (metrics.annualDebtService === 0) return [];
+        const stressedCashFlow = calculateMetrics(property, stressedParams(params, threshold)).annualCashFlow;
+        return [{
+          key: field.key, value: stressedCashFlow, threshold, passes: stressedCashFlow > 0,
+          reason: `Cash flow is ${formatCurrency(stressedCashFlow)}/yr with rates ${threshold} pts higher`,
+        }];
+      }
+    }
+  });
+
+  return { buyBoxId: box.id, name: box.name, passes: checks.every(c => c.passes), checks };
+};
+
+export const evaluateBuyBoxes = (property: PropertyData, params: FinancialParams, boxes: BuyBox[]): BuyBoxResult[] =>
+  boxes.map(box => evaluateBuyBox(property, params, box));
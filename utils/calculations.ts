@@ -1,45 +1,48 @@
-import { PropertyData, FinancialParams, CalculationResult } from '../types';
+import {
+  PropertyData,
+  FinancialParams,
+  CalculationResult,
+  AmortizationSchedule,
+  ExpenseCategory,
+  RentBasis,
+} from '../types';
+import { buildLoanSchedule, buildSecondLoanSchedule, resolveFinancing, scheduledDebtServiceForYear } from './amortization';
+import {
+  ExpenseBase,
+  annualExpenseAmount,
+  createExpenseItem,
+  findExpenseCategory,
+  summarizeExpenseLedger,
+} from './expenses';
+import { monthlyRentRollIncome } from './rentRoll';
+import { otherIncomeForYear } from './otherIncome';
+import { averageOccupancy, shortTermRentalForYear, withAverageOccupancy } from './shortTermRental';
+
+// Required payments in the first year, excluding voluntary prepayments and any balloon payoff
+const yearOneDebtService = (schedule: AmortizationSchedule | null): number =>
+  schedule ? scheduledDebtServiceForYear(schedule, 1) : 0;
+
 
 export const calculateMetrics = (
   property: PropertyData,
   params: FinancialParams
 ): CalculationResult => {
-  const {
-    listPrice,
-    numUnits,
-    estimatedRentPerUnit,
-    unitRents,
-    propertyTaxAnnual,
-    insuranceAnnual,
-    hoaMonthly,
-    maintenanceRate,
-    vacancyRate,
-  } = property;
-
-  const {
-    downPaymentPercent,
-    interestRate,
-    loanTermYears,
-    closingCostsPercent,
-  } = params;
+  const { listPrice, numUnits } = property;
 
   // 1. Income
-  // Calculate potential gross income by summing individual unit rents if available
-  // Fallback to average * units if array is missing (safety check)
-  const monthlyGrossIncome = (unitRents && unitRents.length > 0)
-    ? unitRents.reduce((sum, rent) => sum + rent, 0)
-    : estimatedRentPerUnit * numUnits;
-
-  const potentialGrossIncome = monthlyGrossIncome * 12;
-  const vacancyLoss = potentialGrossIncome * (vacancyRate / 100);
-  const effectiveGrossIncome = potentialGrossIncome - vacancyLoss;
+  const { grossRent, effectiveGrossIncome } = calculateExpenseBase(property, params.rentBasis);
+  const otherIncome = otherIncomeForYear(property.otherIncome || []).gross;
+  const potentialGrossIncome = grossRent + otherIncome;
 
   // 2. Operating Expenses
-  const maintenanceAnnual = effectiveGrossIncome * (maintenanceRate / 100);
-  const hoaAnnual = hoaMonthly * 12;
-  // Management fees could be added here, currently simplified into maintenance/ops
+  // Every ledger item, whether fixed or measured against income, plus the platform, management, cleaning and utility costs of a nightly rental
+  const ledger = summarizeExpenseLedger(property.expenses || [], numUnits);
+  const shortTerm = property.shortTermRental ? shortTermRentalForYear(property.shortTermRental, numUnits) : null;
   const totalOperatingExpenses =
-    propertyTaxAnnual + insuranceAnnual + hoaAnnual + maintenanceAnnual;
+    ledger.fixedAnnual +
+    effectiveGrossIncome * (ledger.percentOfEgi / 100) +
+    grossRent * (ledger.percentOfGrossRent / 100) +
+    (shortTerm?.operatingExpenses ?? 0);
 
   // 3. NOI
   const noi = effectiveGrossIncome - totalOperatingExpenses;
@@ -49,35 +52,41 @@ export const calculateMetrics = (
   const capRate = listPrice > 0 ? (noi / listPrice) * 100 : 0;
 
   // 5. Debt Service (Mortgage)
-  const downPaymentAmount = listPrice * (downPaymentPercent / 100);
-  const loanAmount = listPrice - downPaymentAmount;
-  
-  let monthlyMortgagePayment = 0;
-  if (loanAmount > 0 && interestRate > 0) {
-    const monthlyRate = interestRate / 100 / 12;
-    const numberOfPayments = loanTermYears * 12;
-    // Standard amortization formula
-    monthlyMortgagePayment =
-      (loanAmount * monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) /
-      (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-  } else if (loanAmount > 0 && interestRate === 0) {
-    monthlyMortgagePayment = loanAmount / (loanTermYears * 12);
-  }
-
-  const annualDebtService = monthlyMortgagePayment * 12;
+  // Year-one payments capture interest-only periods, rate resets, PMI and any second loan
+  const { cashDownPayment, loanFees, firstLoanAmount, secondLoanAmount } =
+    resolveFinancing(property, params);
+  const annualDebtService =
+    yearOneDebtService(buildLoanSchedule(property, params, 12)) +
+    yearOneDebtService(buildSecondLoanSchedule(property, params, 12));
+  const monthlyMortgagePayment = annualDebtService / 12;
 
   // 6. Cash Flow & Returns
   const annualCashFlow = noi - annualDebtService;
-  const closingCosts = listPrice * (closingCostsPercent / 100);
-  const totalInitialInvestment = downPaymentAmount + closingCosts;
+  // Points and origination fees are paid in cash at closing, on top of the acquisition costs
+  const totalInitialInvestment = cashDownPayment + calculateAcquisitionCosts(property, params) + loanFees;
 
   const cashOnCashReturn =
     totalInitialInvestment > 0
       ? (annualCashFlow / totalInitialInvestment) * 100
       : 0;
 
+  // 7. Lender Underwriting
+  const totalLoanAmount = firstLoanAmount + secondLoanAmount;
+  const dscr = annualDebtService > 0 ? noi / annualDebtService : 0;
+  const grossRentMultiplier = grossRent > 0 ? listPrice / grossRent : 0;
+  const operatingExpenseRatio =
+    effectiveGrossIncome > 0 ? (totalOperatingExpenses / effectiveGrossIncome) * 100 : 0;
+  const breakEvenOccupancy =
+    potentialGrossIncome > 0
+      ? ((totalOperatingExpenses + annualDebtService) / potentialGrossIncome) * 100
+      : 0;
+  const pricePerUnit = numUnits > 0 ? listPrice / numUnits : listPrice;
+  const debtYield = totalLoanAmount > 0 ? (noi / totalLoanAmount) * 100 : 0;
+
   return {
     grossAnnualIncome: potentialGrossIncome,
+    grossRentalIncome: grossRent,
+    otherIncome,
     effectiveGrossIncome,
     totalOperatingExpenses,
     noi,
@@ -87,9 +96,128 @@ export const calculateMetrics = (
     annualCashFlow,
     cashOnCashReturn,
     totalInitialInvestment,
+    totalLoanAmount,
+    dscr,
+    grossRentMultiplier,
+    operatingExpenseRatio,
+    breakEvenOccupancy,
+    pricePerUnit,
+    debtYield,
   };
 };
 
+// Costs of buying the property whether or not it is financed: closing costs, plus furnishing
+// when it is a nightly rental
+export const calculateAcquisitionCosts = (property: PropertyData, params: FinancialParams): number => {
+  const closingCosts = property.listPrice * (params.closingCostsPercent / 100);
+  const furnishingCosts = property.shortTermRental ? property.shortTermRental.furnishingCost * property.numUnits : 0;
+  return closingCosts + furnishingCosts;
+};
+
+export const calculateExpenseBase = (property: PropertyData, rentBasis: RentBasis = 'IN_PLACE'): ExpenseBase => {
+  const { numUnits, estimatedRentPerUnit, rentRoll, vacancyRate, shortTermRental } = property;
+  // Other income streams carry their own vacancy and collection loss
+  const otherIncome = otherIncomeForYear(property.otherIncome || []).effective;
+
+  // A nightly rental earns on booked nights and cleaning fees instead of the rent roll
+  if (shortTermRental) {
+    const { potentialRent, bookingRevenue } = shortTermRentalForYear(shortTermRental, numUnits);
+    return { grossRent: potentialRent, effectiveGrossIncome: bookingRevenue + otherIncome, numUnits };
+  }
+
+  // Sum the rent roll on the chosen basis if available
+  // Fallback to average * units if the roll is missing (safety check)
+  const monthlyGrossIncome = (rentRoll && rentRoll.length > 0)
+    ? monthlyRentRollIncome(rentRoll, rentBasis)
+    : estimatedRentPerUnit * numUnits;
+
+  const grossRent = monthlyGrossIncome * 12;
+  const vacancyLoss = grossRent * (vacancyRate / 100);
+  return { grossRent, effectiveGrossIncome: grossRent - vacancyLoss + otherIncome, numUnits };
+};
+
+export const calculateExpenseCategoryTotal = (
+  property: PropertyData,
+  category: ExpenseCategory,
+  rentBasis: RentBasis = 'IN_PLACE'
+): number => {
+  const base = calculateExpenseBase(property, rentBasis);
+  return (property.expenses || [])
+    .filter(item => item.category === category)
+    .reduce((sum, item) => sum + annualExpenseAmount(item, base), 0);
+};
+
+// Move a category's annual total to `annualTotal` by scaling each of its items. A category
+// with nothing in it gets a single fixed annual item.
+export const withExpenseCategoryTotal = (
+  property: PropertyData,
+  category: ExpenseCategory,
+  annualTotal: number,
+  rentBasis: RentBasis = 'IN_PLACE'
+): PropertyData => {
+  const current = calculateExpenseCategoryTotal(property, category, rentBasis);
+  const expenses = property.expenses || [];
+
+  if (current > 0) {
+    const factor = annualTotal / current;
+    return {
+      ...property,
+      expenses: expenses.map(item => item.category === category ? { ...item, amount: item.amount * factor } : item),
+    };
+  }
+
+  return {
+    ...property,
+    expenses: [
+      ...expenses.filter(item => item.category !== category),
+      createExpenseItem({ name: findExpenseCategory(category).label, category, amount: annualTotal }),
+    ],
+  };
+};
+
+export const calculateAverageRent = (property: PropertyData, rentBasis: RentBasis = 'IN_PLACE'): number =>
+  property.rentRoll && property.rentRoll.length > 0
+    ? monthlyRentRollIncome(property.rentRoll, rentBasis) / property.rentRoll.length
+    : property.estimatedRentPerUnit;
+
+// Move the average rent to `averageRent`, scaling current and market rents on every unit
+// so the rent roll keeps its shape and its loss-to-lease
+export const withAverageRent = (
+  property: PropertyData,
+  averageRent: number,
+  rentBasis: RentBasis = 'IN_PLACE'
+): PropertyData => {
+  const current = calculateAverageRent(property, rentBasis);
+  const factor = current > 0 ? averageRent / current : 0;
+  const rentRoll = (property.rentRoll || []).map(unit => ({
+    ...unit,
+    currentRent: current > 0 ? unit.currentRent * factor : averageRent,
+    marketRent: current > 0 ? unit.marketRent * factor : averageRent,
+  }));
+  return { ...property, estimatedRentPerUnit: averageRent, rentRoll };
+};
+
+// The goal seek, sensitivity grid and simulation vary "rent" and "vacancy". A nightly rental
+// ignores the rent roll and the flat vacancy rate, so there they move the average daily rate
+// and the occupancy calendar instead.
+
+export const calculateRentLever = (property: PropertyData, rentBasis: RentBasis = 'IN_PLACE'): number =>
+  property.shortTermRental ? property.shortTermRental.averageDailyRate : calculateAverageRent(property, rentBasis);
+
+export const withRentLever = (property: PropertyData, value: number, rentBasis: RentBasis = 'IN_PLACE'): PropertyData =>
+  property.shortTermRental
+    ? { ...property, shortTermRental: { ...property.shortTermRental, averageDailyRate: value } }
+    : withAverageRent(property, value, rentBasis);
+
+// Percentage of nights or rent lost to vacancy
+export const calculateVacancyLever = (property: PropertyData): number =>
+  property.shortTermRental ? 100 - averageOccupancy(property.shortTermRental) : property.vacancyRate;
+
+export const withVacancyLever = (property: PropertyData, value: number): PropertyData =>
+  property.shortTermRental
+    ? { ...property, shortTermRental: withAverageOccupancy(property.shortTermRental, 100 - value) }
+    : { ...property, vacancyRate: value };
+
 export const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -105,3 +233,10 @@ export const formatPercent = (value: number) => {
     maximumFractionDigits: 2,
   }).format(value / 100);
 };
+
+// Short dollar amounts for chart axes, e.g. $250k or $1.2M
+export const formatAxisCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1000) return `$${Math.round(value / 1000)}k`;
+  return `$${Math.round(value)}`;
+};
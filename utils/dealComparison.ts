@@ -0,0 +1,71 @@
+import { SavedAnalysis, CalculationResult } from '../types';
+import { calculateMetrics } from './calculations';
+import { toCsv } from './export';
+import { ComparisonFormat, findActiveScenario, formatComparisonValue } from './scenarios';
+
+export const DEAL_COMPARISON_FIELDS: {
+  key: 'listPrice' | 'numUnits' | keyof CalculationResult;
+  label: string;
+  format: ComparisonFormat;
+  higherIsBetter?: boolean; // Unset rows are shown but not ranked
+}[] = [
+  { key: 'listPrice', label: 'Purchase Price', format: 'currency' },
+  { key: 'numUnits', label: 'Units', format: 'number' },
+  { key: 'pricePerUnit', label: 'Price per Unit', format: 'currency', higherIsBetter: false },
+  { key: 'noi', label: 'NOI', format: 'currency', higherIsBetter: true },
+  { key: 'capRate', label: 'Cap Rate', format: 'percent', higherIsBetter: true },
+  { key: 'cashOnCashReturn', label: 'Cash on Cash', format: 'percent', higherIsBetter: true },
+  { key: 'annualCashFlow', label: 'Annual Cash Flow', format: 'currency', higherIsBetter: true },
+  { key: 'totalInitialInvestment', label: 'Total Investment', format: 'currency', higherIsBetter: false },
+];
+
+// Rank 1 is best; tied values share a rank
+const rankValues = (values: number[], higherIsBetter: boolean) =>
+  values.map(v => 1 + values.filter(other => (higherIsBetter ? other > v : other < v)).length);
+
+// Each deal on its active scenario, ordered best first by its average rank across the
+// ranked rows
+export const compareDeals = (analyses: SavedAnalysis[]) => {
+  const deals = analyses.flatMap(analysis => {
+    const scenario = findActiveScenario(analysis);
+    if (!scenario) return [];
+    const metrics = calculateMetrics(scenario.property, scenario.params);
+    const values = DEAL_COMPARISON_FIELDS.map(field =>
+      field.key === 'listPrice' || field.key === 'numUnits' ? scenario.property[field.key] : metrics[field.key]
+    );
+    return [{ analysis, scenarioName: scenario.name, values }];
+  });
+
+  const ranked = DEAL_COMPARISON_FIELDS.flatMap((field, row) =>
+    field.higherIsBetter === undefined ? [] : [rankValues(deals.map(d => d.values[row]), field.higherIsBetter)]
+  );
+  const scored = deals
+    .map((deal, i) => ({
+      ...deal,
+      averageRank: ranked.length > 0 ? ranked.reduce((sum, ranks) => sum + ranks[i], 0) / ranked.length : 1,
+    }))
+    .sort((a, b) => a.averageRank - b.averageRank);
+
+  return {
+    deals: scored,
+    rows: DEAL_COMPARISON_FIELDS.map((field, row) => {
+      const values = scored.map(d => d.values[row]);
+      const best = field.higherIsBetter === undefined || values.length < 2
+        ? null
+        : (field.higherIsBetter ? Math.max : Math.min)(...values);
+      return {
+        ...field,
+        values,
+        // Null when there is nothing to choose between
+        best: best === null || values.every(v => v === best) ? null : best,
+      };
+    }),
+  };
+};
+
+export const dealComparisonToCsv = (comparison: ReturnType<typeof compareDeals>): string =>
+  toCsv([
+    ['Metric', ...comparison.deals.map(d => d.analysis.address)],
+    ['Rank', ...comparison.deals.map((_, i) => i + 1)],
+    ...comparison.rows.map(row => [row.label, ...row.values.map(v => formatComparisonValue(v, row.format))]),
+  ]);
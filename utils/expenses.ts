@@ -0,0 +1,104 @@
+import {
+  ExpenseItem,
+  ExpenseCategory,
+  ExpenseAmountType,
+  LegacyPropertyFields,
+} from '../types';
+
+export const EXPENSE_CATEGORIES: { key: ExpenseCategory; label: string; color: string }[] = [
+  { key: 'TAXES', label: 'Taxes', color: '#94a3b8' },
+  { key: 'INSURANCE', label: 'Insurance', color: '#cbd5e1' },
+  { key: 'HOA', label: 'HOA', color: '#e2e8f0' },
+  { key: 'MANAGEMENT', label: 'Management', color: '#475569' },
+  { key: 'MAINTENANCE', label: 'Maintenance', color: '#64748b' },
+  { key: 'UTILITIES', label: 'Utilities', color: '#a78bfa' },
+  { key: 'CAPEX_RESERVES', label: 'CapEx Reserves', color: '#f59e0b' },
+  { key: 'LANDSCAPING', label: 'Landscaping', color: '#84cc16' },
+  { key: 'LEGAL', label: 'Legal & Professional', color: '#f472b6' },
+  { key: 'OTHER', label: 'Other', color: '#1e293b' },
+];
+
+export const EXPENSE_AMOUNT_TYPES: { key: ExpenseAmountType; label: string }[] = [
+  { key: 'ANNUAL', label: '$ / year' },
+  { key: 'MONTHLY', label: '$ / month' },
+  { key: 'PER_UNIT', label: '$ / unit / year' },
+  { key: 'PERCENT_EGI', label: '% of EGI' },
+  { key: 'PERCENT_GROSS_RENT', label: '% of gross rent' },
+];
+
+export const findExpenseCategory = (key: ExpenseCategory) =>
+  EXPENSE_CATEGORIES.find(c => c.key === key) || EXPENSE_CATEGORIES[EXPENSE_CATEGORIES.length - 1];
+
+export const isPercentExpense = (amountType: ExpenseAmountType) =>
+  amountType === 'PERCENT_EGI' || amountType === 'PERCENT_GROSS_RENT';
+
+export const createExpenseItem = (changes: Partial<ExpenseItem> = {}): ExpenseItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name: 'New Expense',
+  category: 'OTHER',
+  amountType: 'ANNUAL',
+  amount: 0,
+  ...changes,
+});
+
+// Income figures the percentage-based expense types are measured against
+export interface ExpenseBase {
+  grossRent: number; // annual gross potential rent
+  effectiveGrossIncome: number; // rent and other income after vacancy
+  numUnits: number;
+}
+
+export const annualExpenseAmount = (item: ExpenseItem, base: ExpenseBase): number => {
+  switch (item.amountType) {
+    case 'MONTHLY': return item.amount * 12;
+    case 'PER_UNIT': return item.amount * base.numUnits;
+    case 'PERCENT_EGI': return base.effectiveGrossIncome * (item.amount / 100);
+    case 'PERCENT_GROSS_RENT': return base.grossRent * (item.amount / 100);
+    default: return item.amount;
+  }
+};
+
+// Splits the ledger into dollars that do not depend on income and the percentages that do,
+// so projections can inflate the former and let the latter follow rent
+export const summarizeExpenseLedger = (expenses: ExpenseItem[], numUnits: number) =>
+  expenses.reduce(
+    (summary, item) => {
+      if (item.amountType === 'PERCENT_EGI') summary.percentOfEgi += item.amount;
+      else if (item.amountType === 'PERCENT_GROSS_RENT') summary.percentOfGrossRent += item.amount;
+      else summary.fixedAnnual += annualExpenseAmount(item, { grossRent: 0, effectiveGrossIncome: 0, numUnits });
+      return summary;
+    },
+    { fixedAnnual: 0, percentOfEgi: 0, percentOfGrossRent: 0 }
+  );
+
+// Annual totals per category in EXPENSE_CATEGORIES order, leaving out empty categories
+export const expensesByCategory = (expenses: ExpenseItem[], base: ExpenseBase) =>
+  EXPENSE_CATEGORIES
+    .map(({ key, label, color }) => ({
+      category: key,
+      name: label,
+      color,
+      value: expenses
+        .filter(item => item.category === key)
+        .reduce((sum, item) => sum + annualExpenseAmount(item, base), 0),
+    }))
+    .filter(row => row.value > 0);
+
+// Ledger equivalent of the four fixed expense fields, which is also the shape the AI estimates come in
+export const expenseItemsFromFields = (fields: LegacyPropertyFields): ExpenseItem[] => {
+  const items: ExpenseItem[] = [
+    { id: 'tax', name: 'Property Tax', category: 'TAXES', amountType: 'ANNUAL', amount: fields.propertyTaxAnnual || 0 },
+    { id: 'insurance', name: 'Insurance', category: 'INSURANCE', amountType: 'ANNUAL', amount: fields.insuranceAnnual || 0 },
+  ];
+  if (fields.hoaMonthly) {
+    items.push({ id: 'hoa', name: 'HOA Dues', category: 'HOA', amountType: 'MONTHLY', amount: fields.hoaMonthly });
+  }
+  items.push({
+    id: 'maintenance',
+    name: 'Maintenance',
+    category: 'MAINTENANCE',
+    amountType: 'PERCENT_EGI',
+    amount: fields.maintenanceRate || 0,
+  });
+  return items;
+};
@@ -0,0 +1,61 @@
+// Render a DOM element into a single-page A4-width PDF, as tall as the content needs.
+// html2canvas and jsPDF are loaded from a CDN in index.html.
+export const exportElementToPdf = async (element: HTMLElement, filename: string) => {
+  const html2canvas = (window as any).html2canvas;
+  const jspdf = (window as any).jspdf;
+
+  if (!html2canvas || !jspdf) {
+    throw new Error("PDF libraries not loaded. Please refresh.");
+  }
+
+  const canvas = await html2canvas(element, {
+    scale: 2, // High resolution
+    useCORS: true, // Allow external images if any
+    logging: false
+  });
+
+  const imgData = canvas.toDataURL('image/png');
+  const { jsPDF } = jspdf;
+
+  // PDF Dimensions
+  const pdfWidth = 210; // A4 width in mm
+  const margin = 10;    // 10mm margin
+  const imgWidth = pdfWidth - (margin * 2);
+
+  const imgProps = { width: canvas.width, height: canvas.height };
+  const imgHeight = (imgProps.height * imgWidth) / imgProps.width;
+
+  // Height includes top/bottom margins
+  const pdfHeight = imgHeight + (margin * 2);
+
+  const doc = new jsPDF({
+    orientation: pdfHeight > pdfWidth ? 'p' : 'l',
+    unit: 'mm',
+    format: [pdfWidth, pdfHeight] // Custom format to accommodate length
+  });
+
+  // Add image with margin coordinates
+  doc.addImage(imgData, 'PNG', margin, margin, imgWidth, imgHeight);
+  doc.save(filename);
+};
+
+// Keep a filename fragment to letters, digits and underscores
+export const toFilenamePart = (text: string, maxLength = 20) =>
+  text.replace(/[^a-z0-9]/gi, '_').substring(0, maxLength);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map(row => row.map(csvCell).join(',')).join('\n');
+
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,64 @@
+import {
+  PropertyData,
+  ExpenseItem,
+  RentRollUnit,
+  OtherIncomeStream,
+  LegacyPropertyFields,
+  SavedAnalysis,
+  Scenario,
+  LegacySavedAnalysisFields,
+} from '../types';
+import { expenseItemsFromFields } from './expenses';
+import { rentRollFromRents } from './rentRoll';
+import { BASE_SCENARIO_NAME, createScenario } from './scenarios';
+
+type StoredPropertyData = Omit<PropertyData, 'expenses' | 'rentRoll' | 'otherIncome'> & {
+  expenses?: ExpenseItem[];
+  rentRoll?: RentRollUnit[];
+  otherIncome?: OtherIncomeStream[];
+} & LegacyPropertyFields;
+
+// Properties saved or shared by earlier versions carry a bare rent array and four fixed
+// expense fields, and may have no other income. Convert them so every loaded property has
+// a rent roll, an expense ledger and an other income list.
+export const migrateProperty = (raw: StoredPropertyData): PropertyData => {
+  const { unitRents, propertyTaxAnnual, insuranceAnnual, hoaMonthly, maintenanceRate, expenses, rentRoll, ...rest } = raw;
+  return {
+    ...rest,
+    rentRoll: Array.isArray(rentRoll)
+      ? rentRoll
+      : rentRollFromRents(
+          unitRents && unitRents.length > 0 ? unitRents : new Array(rest.numUnits || 0).fill(rest.estimatedRentPerUnit || 0)
+        ),
+    expenses: Array.isArray(expenses)
+      ? expenses
+      : expenseItemsFromFields({ propertyTaxAnnual, insuranceAnnual, hoaMonthly, maintenanceRate }),
+    otherIncome: Array.isArray(rest.otherIncome) ? rest.otherIncome : [],
+  };
+};
+
+type StoredScenarios = {
+  scenarios?: Scenario[];
+  activeScenarioId?: string;
+} & LegacySavedAnalysisFields;
+
+type StoredSavedAnalysis = Omit<SavedAnalysis, 'scenarios' | 'activeScenarioId'> & StoredScenarios;
+
+// Saved analyses and shared links from before scenarios carry a single property and params
+// pair, which becomes a "Base" scenario. Every scenario's property is migrated as well.
+export const migrateScenarios = ({ scenarios, property, params }: StoredScenarios): Scenario[] =>
+  Array.isArray(scenarios) && scenarios.length > 0
+    ? scenarios.map(s => ({ ...s, property: migrateProperty(s.property) }))
+    : property && params
+      ? [createScenario(BASE_SCENARIO_NAME, migrateProperty(property), params)]
+      : [];
+
+export const migrateSavedAnalysis = (raw: StoredSavedAnalysis): SavedAnalysis => {
+  const { property, params, scenarios, activeScenarioId, ...rest } = raw;
+  const migrated = migrateScenarios({ scenarios, property, params });
+  return {
+    ...rest,
+    scenarios: migrated,
+    activeScenarioId: migrated.find(s => s.id === activeScenarioId)?.id ?? migrated[0]?.id ?? '',
+  };
+};
@@ -0,0 +1,35 @@
+import { OtherIncomeStream, OtherIncomeType } from '../types';
+
+export const OTHER_INCOME_TYPES: { key: OtherIncomeType; label: string }[] = [
+  { key: 'PARKING', label: 'Parking' },
+  { key: 'LAUNDRY', label: 'Laundry' },
+  { key: 'STORAGE', label: 'Storage' },
+  { key: 'PET_FEES', label: 'Pet Fees' },
+  { key: 'RUBS', label: 'RUBS (Utility Billback)' },
+  { key: 'OTHER', label: 'Other' },
+];
+
+export const createOtherIncomeStream = (changes: Partial<OtherIncomeStream> = {}): OtherIncomeStream => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name: 'Parking',
+  type: 'PARKING',
+  monthlyAmount: 0,
+  vacancyPercent: 5,
+  growthPercent: 2,
+  ...changes,
+});
+
+// Annual gross and collected income for one stream in `year` (1 = first year), grown at its own rate
+export const otherIncomeStreamForYear = (stream: OtherIncomeStream, year = 1) => {
+  const gross = stream.monthlyAmount * 12 * Math.pow(1 + stream.growthPercent / 100, year - 1);
+  return { gross, effective: gross * (1 - stream.vacancyPercent / 100) };
+};
+
+export const otherIncomeForYear = (streams: OtherIncomeStream[], year = 1) =>
+  streams.reduce(
+    (total, stream) => {
+      const { gross, effective } = otherIncomeStreamForYear(stream, year);
+      return { gross: total.gross + gross, effective: total.effective + effective };
+    },
+    { gross: 0, effective: 0 }
+  );
@@ -0,0 +1,87 @@
+import { SavedAnalysis, PortfolioHolding, PortfolioSummary } from '../types';
+import { calculateMetrics } from './calculations';
+import { toCsv } from './export';
+import { findActiveScenario } from './scenarios';
+
+// Roll up owned analyses on their active scenarios. Without purchase dates there is no
+// paydown or appreciation to apply, so value is the price and debt the original loan.
+export const summarizePortfolio = (analyses: SavedAnalysis[]): PortfolioSummary => {
+  const holdings = analyses.flatMap(analysis => {
+    const scenario = findActiveScenario(analysis);
+    if (!scenario) return [];
+    const metrics = calculateMetrics(scenario.property, scenario.params);
+    const value = scenario.property.listPrice;
+    return [{
+      analysisId: analysis.id,
+      address: analysis.address,
+      scenarioName: scenario.name,
+      value,
+      debt: metrics.totalLoanAmount,
+      equity: value - metrics.totalLoanAmount,
+      effectiveGrossIncome: metrics.effectiveGrossIncome,
+      noi: metrics.noi,
+      annualDebtService: metrics.annualDebtService,
+      annualCashFlow: metrics.annualCashFlow,
+      capRate: metrics.capRate,
+      incomeShare: 0,
+    }];
+  });
+
+  const sum = (key: keyof Omit<PortfolioHolding, 'analysisId' | 'address' | 'scenarioName'>) =>
+    holdings.reduce((total, h) => total + h[key], 0);
+  const totalValue = sum('value');
+  const totalDebt = sum('debt');
+  const totalIncome = sum('effectiveGrossIncome');
+  const totalNoi = sum('noi');
+  const totalDebtService = sum('annualDebtService');
+
+  return {
+    holdings: holdings.map(h => ({
+      ...h,
+      incomeShare: totalIncome > 0 ? (h.effectiveGrossIncome / totalIncome) * 100 : 0,
+    })),
+    totalValue,
+    totalDebt,
+    totalEquity: totalValue - totalDebt,
+    totalIncome,
+    totalNoi,
+    totalDebtService,
+    monthlyCashFlow: sum('annualCashFlow') / 12,
+    weightedCapRate: totalValue > 0 ? (totalNoi / totalValue) * 100 : 0,
+    leverage: totalValue > 0 ? (totalDebt / totalValue) * 100 : 0,
+    dscr: totalDebtService > 0 ? totalNoi / totalDebtService : 0,
+  };
+};
+
+export const portfolioToCsv = (summary: PortfolioSummary): string => {
+  const round = (value: number, digits = 0) => Number(value.toFixed(digits));
+  return toCsv([
+    ['Address', 'Scenario', 'Value', 'Debt', 'Equity', 'Effective Gross Income', 'NOI', 'Annual Debt Service', 'Annual Cash Flow', 'Cap Rate (%)', 'Income Share (%)'],
+    ...summary.holdings.map(h => [
+      h.address,
+      h.scenarioName,
+      round(h.value),
+      round(h.debt),
+      round(h.equity),
+      round(h.effectiveGrossIncome),
+      round(h.noi),
+      round(h.annualDebtService),
+      round(h.annualCashFlow),
+      round(h.capRate, 2),
+      round(h.incomeShare, 2),
+    ]),
+    [
+      'Portfolio Total',
+      '',
+      round(summary.totalValue),
+      round(summary.totalDebt),
+      round(summary.totalEquity),
+      round(summary.totalIncome),
+      round(summary.totalNoi),
+      round(summary.totalDebtService),
+      round(summary.monthlyCashFlow * 12),
+      round(summary.weightedCapRate, 2),
+      100,
+    ],
+  ]);
+};
@@ -0,0 +1,104 @@
+import { PropertyData, FinancialParams, ProjectionYear, AmortizationSchedule } from '../types';
+import { calculateMetrics } from './calculations';
+import { summarizeExpenseLedger } from './expenses';
+import { otherIncomeForYear } from './otherIncome';
+import { shortTermRentalForYear } from './shortTermRental';
+import {
+  buildLoanSchedule,
+  buildSecondLoanSchedule,
+  balanceAfterYear,
+  prepaymentsForYear,
+  scheduledDebtServiceForYear,
+} from './amortization';
+
+export const DEFAULT_PROJECTION_ASSUMPTIONS = {
+  rentGrowthPercent: 3,
+  expenseGrowthPercent: 2.5,
+  appreciationPercent: 3,
+  holdPeriodYears: 10,
+};
+
+export const MAX_HOLD_PERIOD_YEARS = 30;
+
+// Fill in projection assumptions missing from older saved or shared analyses
+export const resolveProjectionAssumptions = (params: FinancialParams) => ({
+  rentGrowthPercent: params.rentGrowthPercent ?? DEFAULT_PROJECTION_ASSUMPTIONS.rentGrowthPercent,
+  expenseGrowthPercent: params.expenseGrowthPercent ?? DEFAULT_PROJECTION_ASSUMPTIONS.expenseGrowthPercent,
+  appreciationPercent: params.appreciationPercent ?? DEFAULT_PROJECTION_ASSUMPTIONS.appreciationPercent,
+  holdPeriodYears: Math.min(
+    MAX_HOLD_PERIOD_YEARS,
+    Math.max(1, Math.floor(params.holdPeriodYears ?? DEFAULT_PROJECTION_ASSUMPTIONS.holdPeriodYears))
+  ),
+});
+
+// `years` overrides the hold period, e.g. to get the forward year an exit cap rate is applied to
+export const projectCashFlows = (
+  property: PropertyData,
+  params: FinancialParams,
+  years?: number
+): ProjectionYear[] => {
+  const { rentGrowthPercent, expenseGrowthPercent, appreciationPercent, holdPeriodYears } =
+    resolveProjectionAssumptions(params);
+  const projectionYears = years ?? holdPeriodYears;
+
+  // Year one is exactly the snapshot the Dashboard already shows
+  const base = calculateMetrics(property, params);
+  const schedules = [buildLoanSchedule(property, params), buildSecondLoanSchedule(property, params)]
+    .filter((schedule): schedule is AmortizationSchedule => schedule !== null);
+
+  // Percentage-based expenses grow with rent; fixed costs grow with inflation
+  const ledger = summarizeExpenseLedger(property.expenses || [], property.numUnits);
+
+  const rows: ProjectionYear[] = [];
+  let cumulativeCashFlow = 0;
+
+  for (let year = 1; year <= projectionYears; year++) {
+    const rentFactor = Math.pow(1 + rentGrowthPercent / 100, year - 1);
+    const expenseFactor = Math.pow(1 + expenseGrowthPercent / 100, year - 1);
+
+    // Rent grows at the rent growth rate, each other income stream at its own
+    const grossRent = base.grossRentalIncome * rentFactor;
+    const otherIncome = otherIncomeForYear(property.otherIncome || [], year);
+    const grossIncome = grossRent + otherIncome.gross;
+    // A nightly rental's seasonal occupancy stands in for the vacancy rate
+    const shortTerm = property.shortTermRental
+      ? shortTermRentalForYear(property.shortTermRental, property.numUnits, rentFactor, expenseFactor)
+      : null;
+    const rentalIncome = shortTerm ? shortTerm.bookingRevenue : grossRent * (1 - property.vacancyRate / 100);
+    const effectiveGrossIncome = rentalIncome + otherIncome.effective;
+    const operatingExpenses =
+      ledger.fixedAnnual * expenseFactor +
+      effectiveGrossIncome * (ledger.percentOfEgi / 100) +
+      grossRent * (ledger.percentOfGrossRent / 100) +
+      (shortTerm?.operatingExpenses ?? 0);
+    const noi = effectiveGrossIncome - operatingExpenses;
+
+    // Required payments on every lien, dropping to zero once the loans are paid off. Extra
+    // principal and balloon payoffs are tracked separately: they lower the loan balance
+    // rather than the property's cash flow.
+    const debtService = schedules.reduce((sum, schedule) => sum + scheduledDebtServiceForYear(schedule, year), 0);
+    const prepayments = schedules.reduce((sum, schedule) => sum + prepaymentsForYear(schedule, year), 0);
+    const cashFlow = noi - debtService;
+    cumulativeCashFlow += cashFlow;
+
+    const propertyValue = property.listPrice * Math.pow(1 + appreciationPercent / 100, year);
+    const loanBalance = schedules.reduce((sum, schedule) => sum + balanceAfterYear(schedule, year), 0);
+
+    rows.push({
+      year,
+      grossIncome,
+      effectiveGrossIncome,
+      operatingExpenses,
+      noi,
+      debtService,
+      prepayments,
+      cashFlow,
+      cumulativeCashFlow,
+      propertyValue,
+      loanBalance,
+      equity: propertyValue - loanBalance,
+    });
+  }
+
+  return rows;
+};
@@ -0,0 +1,82 @@
+import { RentRollUnit, RentRollSummary, RentBasis } from '../types';
+
+// Leases ending within this many months are flagged as upcoming expirations
+export const LEASE_EXPIRATION_WINDOW_MONTHS = 12;
+
+export const createRentRollUnit = (index: number, rent: number, changes: Partial<RentRollUnit> = {}): RentRollUnit => ({
+  id: `${Date.now().toString(36)}-${index}-${Math.random().toString(36).slice(2, 7)}`,
+  label: `Unit ${index + 1}`,
+  bedrooms: 0,
+  bathrooms: 0,
+  squareFeet: 0,
+  currentRent: rent,
+  marketRent: rent,
+  occupied: true,
+  ...changes,
+});
+
+// A rent roll with only rents known, e.g. from an AI estimate or the old per-unit rent array
+export const rentRollFromRents = (rents: number[]): RentRollUnit[] =>
+  rents.map((rent, index) => createRentRollUnit(index, rent));
+
+// Vacant units have no in-place lease, so they count at market rent on either basis and
+// the vacancy rate covers the lost income
+export const underwrittenRent = (unit: RentRollUnit, basis: RentBasis): number =>
+  basis === 'MARKET' || !unit.occupied ? unit.marketRent : unit.currentRent;
+
+export const monthlyRentRollIncome = (rentRoll: RentRollUnit[], basis: RentBasis): number =>
+  rentRoll.reduce((sum, unit) => sum + underwrittenRent(unit, basis), 0);
+
+// Grow or shrink the roll to `count` units, copying the last unit's rents into new ones
+export const resizeRentRoll = (rentRoll: RentRollUnit[], count: number, fallbackRent: number): RentRollUnit[] => {
+  if (count <= rentRoll.length) return rentRoll.slice(0, count);
+
+  const last = rentRoll[rentRoll.length - 1];
+  const added = Array.from({ length: count - rentRoll.length }, (_, i) =>
+    createRentRollUnit(rentRoll.length + i, last ? last.currentRent : fallbackRent, {
+      marketRent: last ? last.marketRent : fallbackRent,
+      bedrooms: last?.bedrooms ?? 0,
+      bathrooms: last?.bathrooms ?? 0,
+      squareFeet: last?.squareFeet ?? 0,
+    })
+  );
+  return [...rentRoll, ...added];
+};
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const summarizeRentRoll = (rentRoll: RentRollUnit[], asOf: Date = new Date()): RentRollSummary => {
+  const occupied = rentRoll.filter(unit => unit.occupied);
+  const sum = (units: RentRollUnit[], pick: (unit: RentRollUnit) => number) =>
+    units.reduce((total, unit) => total + pick(unit), 0);
+
+  const inPlaceMonthlyRent = sum(occupied, u => u.currentRent);
+  const occupiedMarketRent = sum(occupied, u => u.marketRent);
+  const marketMonthlyRent = sum(rentRoll, u => u.marketRent);
+  const lossToLeaseMonthly = occupiedMarketRent - inPlaceMonthlyRent;
+  const squareFeet = sum(rentRoll, u => u.squareFeet);
+  const occupiedSquareFeet = sum(occupied, u => u.squareFeet);
+
+  // ISO dates compare correctly as strings
+  const windowEnd = new Date(asOf);
+  windowEnd.setMonth(windowEnd.getMonth() + LEASE_EXPIRATION_WINDOW_MONTHS);
+  const from = toIsoDate(asOf);
+  const to = toIsoDate(windowEnd);
+  const upcomingExpirations = occupied
+    .filter(unit => unit.leaseEnd && unit.leaseEnd >= from && unit.leaseEnd <= to)
+    .sort((a, b) => (a.leaseEnd! < b.leaseEnd! ? -1 : 1));
+
+  return {
+    unitCount: rentRoll.length,
+    occupiedUnits: occupied.length,
+    occupancyPercent: rentRoll.length > 0 ? (occupied.length / rentRoll.length) * 100 : 0,
+    inPlaceMonthlyRent,
+    marketMonthlyRent,
+    lossToLeaseMonthly,
+    lossToLeasePercent: occupiedMarketRent > 0 ? (lossToLeaseMonthly / occupiedMarketRent) * 100 : 0,
+    squareFeet,
+    inPlaceRentPerSqFt: occupiedSquareFeet > 0 ? inPlaceMonthlyRent / occupiedSquareFeet : 0,
+    marketRentPerSqFt: squareFeet > 0 ? marketMonthlyRent / squareFeet : 0,
+    upcomingExpirations,
+  };
+};
@@ -0,0 +1,129 @@
+import { PropertyData, FinancialParams, ExitAnalysis } from '../types';
+import { calculateAcquisitionCosts, calculateMetrics } from './calculations';
+import { projectCashFlows, resolveProjectionAssumptions } from './projections';
+
+export const DEFAULT_EXIT_ASSUMPTIONS = {
+  exitValuationMethod: 'APPRECIATION' as const,
+  sellingCostsPercent: 6,
+  discountRatePercent: 8,
+};
+
+// Fill in exit assumptions missing from older saved or shared analyses.
+// Without an explicit exit cap rate we assume the property sells at its going-in cap rate.
+export const resolveExitAssumptions = (property: PropertyData, params: FinancialParams) => ({
+  exitValuationMethod: params.exitValuationMethod ?? DEFAULT_EXIT_ASSUMPTIONS.exitValuationMethod,
+  exitCapRatePercent: params.exitCapRatePercent ?? calculateMetrics(property, params).capRate,
+  sellingCostsPercent: params.sellingCostsPercent ?? DEFAULT_EXIT_ASSUMPTIONS.sellingCostsPercent,
+  discountRatePercent: params.discountRatePercent ?? DEFAULT_EXIT_ASSUMPTIONS.discountRatePercent,
+});
+
+// Net present value where cashFlows[0] occurs today and cashFlows[n] at the end of year n
+export const calculateNpv = (ratePercent: number, cashFlows: number[]): number => {
+  const rate = ratePercent / 100;
+  return cashFlows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0);
+};
+
+// Internal rate of return as a percentage. Newton-Raphson with a bisection fallback;
+// returns null when the cash flows never change sign (no IRR exists).
+export const calculateIrr = (cashFlows: number[]): number | null => {
+  const hasPositive = cashFlows.some(cf => cf > 0);
+  const hasNegative = cashFlows.some(cf => cf < 0);
+  if (!hasPositive || !hasNegative) return null;
+
+  const npvAt = (rate: number) => calculateNpv(rate * 100, cashFlows);
+  const derivativeAt = (rate: number) =>
+    cashFlows.reduce((sum, cf, t) => sum - (t * cf) / Math.pow(1 + rate, t + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npvAt(rate);
+    const slope = derivativeAt(rate);
+    if (Math.abs(value) < 1e-7) return rate * 100;
+    if (slope === 0) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next * 100;
+    rate = next;
+  }
+
+  // Newton failed to converge, bisect over a wide bracket instead
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = npvAt(low);
+  if (lowValue * npvAt(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npvAt(mid);
+    if (Math.abs(midValue) < 1e-7 || high - low < 1e-10) return mid * 100;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return ((low + high) / 2) * 100;
+};
+
+export const calculateExitAnalysis = (
+  property: PropertyData,
+  params: FinancialParams
+): ExitAnalysis => {
+  const { holdPeriodYears } = resolveProjectionAssumptions(params);
+  const { exitValuationMethod, exitCapRatePercent, sellingCostsPercent, discountRatePercent } =
+    resolveExitAssumptions(property, params);
+
+  // Project one year past the hold so a cap rate can be applied to forward NOI
+  const projection = projectCashFlows(property, params, holdPeriodYears + 1);
+  const holdYears = projection.slice(0, holdPeriodYears);
+  const exitYear = holdYears[holdYears.length - 1];
+  const forwardNoi = projection[holdPeriodYears].noi;
+
+  // 1. Sale
+  let salePrice = exitYear.propertyValue;
+  if (exitValuationMethod === 'CAP_RATE') {
+    salePrice = exitCapRatePercent > 0 ? forwardNoi / (exitCapRatePercent / 100) : 0;
+  }
+  const sellingCosts = salePrice * (sellingCostsPercent / 100);
+  const loanPayoff = exitYear.loanBalance;
+  const netSaleProceeds = salePrice - sellingCosts - loanPayoff;
+
+  // 2. Cash flow streams (year 0 = acquisition)
+  const metrics = calculateMetrics(property, params);
+
+  // Prepayments are extra equity put in along the way. They come back at exit as a smaller
+  // loan payoff, so they count against the year they are made rather than being dropped.
+  const leveredFlows = [
+    -metrics.totalInitialInvestment,
+    ...holdYears.map(y => y.cashFlow - y.prepayments),
+  ];
+  leveredFlows[holdPeriodYears] += netSaleProceeds;
+
+  // Both streams start from the same all-in acquisition cost; the levered one just funds part
+  // of it with debt (and pays the loan fees)
+  const unleveredFlows = [
+    -(property.listPrice + calculateAcquisitionCosts(property, params)),
+    ...holdYears.map(y => y.noi),
+  ];
+  unleveredFlows[holdPeriodYears] += salePrice - sellingCosts;
+
+  // 3. Returns
+  const totalDistributions = leveredFlows.slice(1).reduce((sum, cf) => sum + cf, 0);
+  const equityMultiple =
+    metrics.totalInitialInvestment > 0
+      ? totalDistributions / metrics.totalInitialInvestment
+      : 0;
+
+  return {
+    holdPeriodYears,
+    salePrice,
+    sellingCosts,
+    loanPayoff,
+    netSaleProceeds,
+    leveredIrr: calculateIrr(leveredFlows),
+    unleveredIrr: calculateIrr(unleveredFlows),
+    npv: calculateNpv(discountRatePercent, leveredFlows),
+    equityMultiple,
+    totalProfit: totalDistributions - metrics.totalInitialInvestment,
+  };
+};
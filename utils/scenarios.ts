@@ -0,0 +1,78 @@
+import { Scenario, SavedAnalysis, PropertyData, FinancialParams, CalculationResult } from '../types';
+import { calculateMetrics, formatCurrency, formatPercent } from './calculations';
+
+export const BASE_SCENARIO_NAME = 'Base';
+
+export const createScenario = (name: string, property: PropertyData, params: FinancialParams): Scenario => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name,
+  property,
+  params,
+});
+
+// A copy named "<name> (copy)", or "(copy 2)" and so on when that name is taken
+export const cloneScenario = (scenario: Scenario, scenarios: Scenario[]): Scenario => {
+  const names = new Set(scenarios.map(s => s.name));
+  let name = `${scenario.name} (copy)`;
+  for (let n = 2; names.has(name); n++) {
+    name = `${scenario.name} (copy ${n})`;
+  }
+  return createScenario(name, scenario.property, scenario.params);
+};
+
+// Falls back to the first scenario if the active one has gone missing
+export const findActiveScenario = (analysis: Pick<SavedAnalysis, 'scenarios' | 'activeScenarioId'>): Scenario | undefined =>
+  analysis.scenarios.find(s => s.id === analysis.activeScenarioId) ?? analysis.scenarios[0];
+
+export type ComparisonFormat = 'currency' | 'percent' | 'multiple' | 'number';
+
+export const SCENARIO_COMPARISON_FIELDS: {
+  key: keyof CalculationResult;
+  label: string;
+  format: ComparisonFormat;
+  higherIsBetter?: boolean; // Unset when neither direction is better
+}[] = [
+  { key: 'grossAnnualIncome', label: 'Gross Annual Income', format: 'currency', higherIsBetter: true },
+  { key: 'grossRentalIncome', label: 'Gross Rental Income', format: 'currency', higherIsBetter: true },
+  { key: 'otherIncome', label: 'Other Income', format: 'currency', higherIsBetter: true },
+  { key: 'effectiveGrossIncome', label: 'Effective Gross Income', format: 'currency', higherIsBetter: true },
+  { key: 'totalOperatingExpenses', label: 'Operating Expenses', format: 'currency', higherIsBetter: false },
+  { key: 'noi', label: 'NOI', format: 'currency', higherIsBetter: true },
+  { key: 'capRate', label: 'Cap Rate', format: 'percent', higherIsBetter: true },
+  { key: 'monthlyMortgagePayment', label: 'Monthly Mortgage Payment', format: 'currency', higherIsBetter: false },
+  { key: 'annualDebtService', label: 'Annual Debt Service', format: 'currency', higherIsBetter: false },
+  { key: 'annualCashFlow', label: 'Annual Cash Flow', format: 'currency', higherIsBetter: true },
+  { key: 'cashOnCashReturn', label: 'Cash on Cash Return', format: 'percent', higherIsBetter: true },
+  { key: 'totalInitialInvestment', label: 'Cash Needed', format: 'currency', higherIsBetter: false },
+  { key: 'totalLoanAmount', label: 'Total Loan Amount', format: 'currency' },
+  { key: 'dscr', label: 'DSCR', format: 'multiple', higherIsBetter: true },
+  { key: 'grossRentMultiplier', label: 'Gross Rent Multiplier', format: 'multiple', higherIsBetter: false },
+  { key: 'operatingExpenseRatio', label: 'Operating Expense Ratio', format: 'percent', higherIsBetter: false },
+  { key: 'breakEvenOccupancy', label: 'Break-Even Occupancy', format: 'percent', higherIsBetter: false },
+  { key: 'pricePerUnit', label: 'Price per Unit', format: 'currency', higherIsBetter: false },
+  { key: 'debtYield', label: 'Debt Yield', format: 'percent', higherIsBetter: true },
+];
+
+export const formatComparisonValue = (value: number, format: ComparisonFormat): string => {
+  switch (format) {
+    case 'currency': return formatCurrency(value);
+    case 'percent': return formatPercent(value);
+    case 'multiple': return `${value.toFixed(2)}x`;
+    case 'number': return value.toLocaleString('en-US');
+  }
+};
+
+// Every metric across the scenarios, each value measured against the first scenario's
+export const compareScenarios = (scenarios: Scenario[]) => {
+  const results = scenarios.map(s => calculateMetrics(s.property, s.params));
+  return SCENARIO_COMPARISON_FIELDS.map(field => {
+    const values = results.map(r => r[field.key]);
+    return {
+      ...field,
+      values,
+      deltas: values.map(v => v - values[0]),
+      // Rounded so that floating point noise doesn't count as a difference
+      differs: values.some(v => Math.abs(v - values[0]) > 0.005),
+    };
+  });
+};
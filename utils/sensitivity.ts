@@ -0,0 +1,169 @@
+import { PropertyData, FinancialParams, CalculationResult, SensitivityGrid, ExpenseCategory } from '../types';
+import {
+  calculateMetrics,
+  calculateRentLever,
+  calculateVacancyLever,
+  withRentLever,
+  withVacancyLever,
+  calculateExpenseCategoryTotal,
+  withExpenseCategoryTotal,
+} from './calculations';
+
+export interface SensitivityInput {
+  id: string;
+  label: string;
+  step: number; // default distance between adjacent grid values
+  format: 'currency' | 'percent' | 'number';
+  getValue: (property: PropertyData, params: FinancialParams) => number;
+  apply: (property: PropertyData, params: FinancialParams, value: number) => [PropertyData, FinancialParams];
+}
+
+export interface SensitivityOutput {
+  key: keyof CalculationResult;
+  label: string;
+  format: 'currency' | 'percent' | 'ratio';
+  higherIsBetter: boolean;
+}
+
+const propertyInput = (
+  key: 'listPrice',
+  label: string,
+  step: number,
+  format: SensitivityInput['format']
+): SensitivityInput => ({
+  id: key,
+  label,
+  step,
+  format,
+  getValue: (property) => property[key],
+  apply: (property, params, value) => [{ ...property, [key]: value }, params],
+});
+
+// Rent and vacancy go through the levers, which move the nightly rate and occupancy
+// calendar on a short-term rental
+const rentInput = (label: string, step: number): SensitivityInput => ({
+  id: 'averageRent',
+  label,
+  step,
+  format: 'currency',
+  getValue: (property, params) => calculateRentLever(property, params.rentBasis),
+  apply: (property, params, value) => [withRentLever(property, value, params.rentBasis), params],
+});
+
+const vacancyInput = (label: string, step: number): SensitivityInput => ({
+  id: 'vacancyRate',
+  label,
+  step,
+  format: 'percent',
+  getValue: (property) => calculateVacancyLever(property),
+  apply: (property, params, value) => [withVacancyLever(property, value), params],
+});
+
+// Varies the annual total of one expense category, scaling its ledger items together
+const expenseInput = (category: ExpenseCategory, label: string, step: number): SensitivityInput => ({
+  id: `expense-${category}`,
+  label,
+  step,
+  format: 'currency',
+  getValue: (property, params) => calculateExpenseCategoryTotal(property, category, params.rentBasis),
+  apply: (property, params, value) => [withExpenseCategoryTotal(property, category, value, params.rentBasis), params],
+});
+
+const paramsInput = (
+  key: 'downPaymentPercent' | 'interestRate' | 'loanTermYears' | 'closingCostsPercent',
+  label: string,
+  step: number,
+  format: SensitivityInput['format']
+): SensitivityInput => ({
+  id: key,
+  label,
+  step,
+  format,
+  getValue: (_, params) => params[key],
+  apply: (property, params, value) => [property, { ...params, [key]: value }],
+});
+
+export const SENSITIVITY_INPUTS: SensitivityInput[] = [
+  propertyInput('listPrice', 'Purchase Price', 25000, 'currency'),
+  rentInput('Avg. Rent / Unit', 100),
+  vacancyInput('Vacancy Rate (%)', 1),
+  expenseInput('MAINTENANCE', 'Annual Maintenance', 500),
+  expenseInput('MANAGEMENT', 'Annual Management', 500),
+  expenseInput('TAXES', 'Annual Tax', 500),
+  expenseInput('INSURANCE', 'Annual Insurance', 250),
+  expenseInput('HOA', 'Annual HOA', 600),
+  paramsInput('interestRate', 'Interest Rate (%)', 0.25, 'percent'),
+  paramsInput('downPaymentPercent', 'Down Payment (%)', 5, 'percent'),
+  paramsInput('closingCostsPercent', 'Closing Costs (%)', 0.5, 'percent'),
+  paramsInput('loanTermYears', 'Loan Term (Years)', 5, 'number'),
+];
+
+export const SENSITIVITY_OUTPUTS: SensitivityOutput[] = [
+  { key: 'capRate', label: 'Cap Rate', format: 'percent', higherIsBetter: true },
+  { key: 'cashOnCashReturn', label: 'Cash on Cash', format: 'percent', higherIsBetter: true },
+  { key: 'annualCashFlow', label: 'Annual Cash Flow', format: 'currency', higherIsBetter: true },
+  { key: 'noi', label: 'Net Operating Income', format: 'currency', higherIsBetter: true },
+  { key: 'monthlyMortgagePayment', label: 'Monthly Mortgage', format: 'currency', higherIsBetter: false },
+  { key: 'annualDebtService', label: 'Annual Debt Service', format: 'currency', higherIsBetter: false },
+  { key: 'totalInitialInvestment', label: 'Total Cash Invested', format: 'currency', higherIsBetter: false },
+  { key: 'effectiveGrossIncome', label: 'Effective Gross Income', format: 'currency', higherIsBetter: true },
+  { key: 'totalOperatingExpenses', label: 'Operating Expenses', format: 'currency', higherIsBetter: false },
+  { key: 'dscr', label: 'DSCR', format: 'ratio', higherIsBetter: true },
+  { key: 'debtYield', label: 'Debt Yield', format: 'percent', higherIsBetter: true },
+  { key: 'breakEvenOccupancy', label: 'Break-Even Occupancy', format: 'percent', higherIsBetter: false },
+];
+
+// Same ids as the inputs they replace, so a chosen row or column survives switching modes
+const SHORT_TERM_RENTAL_INPUTS: Record<string, SensitivityInput> = {
+  averageRent: rentInput('Nightly Rate', 10),
+  vacancyRate: vacancyInput('Avg. Vacancy (%)', 5),
+};
+
+export const sensitivityInputsFor = (property: PropertyData): SensitivityInput[] =>
+  property.shortTermRental ? SENSITIVITY_INPUTS.map(i => SHORT_TERM_RENTAL_INPUTS[i.id] ?? i) : SENSITIVITY_INPUTS;
+
+export const findSensitivityInput = (id: string, property?: PropertyData) => {
+  const inputs = property ? sensitivityInputsFor(property) : SENSITIVITY_INPUTS;
+  return inputs.find(i => i.id === id) || inputs[0];
+};
+
+export const findSensitivityOutput = (key: string) =>
+  SENSITIVITY_OUTPUTS.find(o => o.key === key) || SENSITIVITY_OUTPUTS[0];
+
+// Values centered on the current input, `steps` either side, never below zero
+export const sensitivityRange = (base: number, step: number, steps: number): number[] => {
+  const values: number[] = [];
+  for (let i = -steps; i <= steps; i++) {
+    values.push(Math.max(0, base + i * step));
+  }
+  return values.filter((v, idx) => values.indexOf(v) === idx);
+};
+
+export const buildSensitivityGrid = (
+  property: PropertyData,
+  params: FinancialParams,
+  rowInput: SensitivityInput,
+  colInput: SensitivityInput,
+  output: SensitivityOutput,
+  rowStep: number,
+  colStep: number,
+  steps = 2
+): SensitivityGrid => {
+  const rowValues = sensitivityRange(rowInput.getValue(property, params), rowStep, steps);
+  const colValues = sensitivityRange(colInput.getValue(property, params), colStep, steps);
+
+  const cells = rowValues.map((rowValue) => {
+    const [rowProperty, rowParams] = rowInput.apply(property, params, rowValue);
+    return colValues.map((colValue) => {
+      const [cellProperty, cellParams] = colInput.apply(rowProperty, rowParams, colValue);
+      return calculateMetrics(cellProperty, cellParams)[output.key];
+    });
+  });
+
+  return {
+    rowValues,
+    colValues,
+    cells,
+    baseValue: calculateMetrics(property, params)[output.key],
+  };
+};
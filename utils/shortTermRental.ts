@@ -0,0 +1,74 @@
+import { ShortTermRental } from '../types';
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// A typical leisure market: a summer peak and a winter trough
+export const DEFAULT_MONTHLY_OCCUPANCY = [50, 55, 65, 70, 75, 85, 90, 85, 70, 65, 55, 60];
+
+// Starting assumptions when a property is switched to short-term rental. A nightly rate of
+// about twice the long-term daily rent is a rough rule of thumb until STR comps are in.
+export const createShortTermRental = (
+  monthlyRent: number,
+  changes: Partial<ShortTermRental> = {}
+): ShortTermRental => ({
+  averageDailyRate: Math.round((monthlyRent / 30) * 2),
+  monthlyOccupancyPercent: [...DEFAULT_MONTHLY_OCCUPANCY],
+  averageStayNights: 3,
+  cleaningFeePerStay: 100,
+  cleaningCostPerStay: 80,
+  platformFeePercent: 3,
+  managementFeePercent: 20,
+  utilitiesMonthly: 250,
+  furnishingCost: 15000,
+  ...changes,
+});
+
+// Nights booked across the year as a share of nights available
+export const averageOccupancy = (str: ShortTermRental): number => {
+  const booked = DAYS_IN_MONTH.reduce((sum, days, i) => sum + days * ((str.monthlyOccupancyPercent[i] ?? 0) / 100), 0);
+  return (booked / 365) * 100;
+};
+
+// Move the average occupancy to `occupancyPercent`, scaling every month's vacancy by the
+// same factor so the calendar keeps its seasonality
+export const withAverageOccupancy = (str: ShortTermRental, occupancyPercent: number): ShortTermRental => {
+  const currentVacancy = 100 - averageOccupancy(str);
+  const targetVacancy = 100 - Math.min(100, Math.max(0, occupancyPercent));
+  const monthlyOccupancyPercent = currentVacancy > 0
+    ? str.monthlyOccupancyPercent.map(o => Math.max(0, 100 - (100 - o) * (targetVacancy / currentVacancy)))
+    : str.monthlyOccupancyPercent.map(() => 100 - targetVacancy);
+  return { ...str, monthlyOccupancyPercent };
+};
+
+// Annual income and operating costs for every unit. `rentFactor` grows the nightly rate and
+// cleaning fee charged, `expenseFactor` the per-stay cleaning cost and utilities.
+export const shortTermRentalForYear = (
+  str: ShortTermRental,
+  numUnits: number,
+  rentFactor = 1,
+  expenseFactor = 1
+) => {
+  const nightlyRate = str.averageDailyRate * rentFactor;
+  const bookedNights = (averageOccupancy(str) / 100) * 365 * numUnits;
+  const stays = bookedNights / Math.max(1, str.averageStayNights);
+
+  const potentialRent = nightlyRate * 365 * numUnits;
+  const nightlyRevenue = nightlyRate * bookedNights;
+  const cleaningFees = stays * str.cleaningFeePerStay * rentFactor;
+  const bookingRevenue = nightlyRevenue + cleaningFees;
+
+  const platformFees = bookingRevenue * (str.platformFeePercent / 100);
+  const managementFees = nightlyRevenue * (str.managementFeePercent / 100);
+  const cleaningCosts = stays * str.cleaningCostPerStay * expenseFactor;
+  const utilities = str.utilitiesMonthly * 12 * numUnits * expenseFactor;
+
+  return {
+    potentialRent,
+    bookingRevenue,
+    bookedNights,
+    stays,
+    operatingExpenses: platformFees + managementFees + cleaningCosts + utilities,
+  };
+};
@@ -0,0 +1,206 @@
+import {
+  PropertyData,
+  FinancialParams,
+  SimulationVariable,
+  SimulationVariableKey,
+  SimulationResult,
+  PercentileSummary,
+  HistogramBin,
+} from '../types';
+import {
+  calculateMetrics,
+  calculateRentLever,
+  calculateVacancyLever,
+  withRentLever,
+  withVacancyLever,
+  calculateExpenseCategoryTotal,
+  withExpenseCategoryTotal,
+} from './calculations';
+
+export const DEFAULT_ITERATIONS = 5000;
+const HISTOGRAM_BINS = 20;
+const PROGRESS_INTERVAL = 500;
+
+export const SIMULATION_VARIABLE_LABELS: Record<SimulationVariableKey, string> = {
+  rentPerUnit: 'Avg. Rent / Unit ($)',
+  vacancyRate: 'Vacancy Rate (%)',
+  maintenanceAnnual: 'Annual Maintenance ($)',
+  taxesAnnual: 'Annual Tax ($)',
+  interestRate: 'Interest Rate (%)',
+};
+
+// Rent and vacancy move the nightly rate and occupancy calendar on a short-term rental
+const SHORT_TERM_RENTAL_VARIABLE_LABELS: Record<SimulationVariableKey, string> = {
+  ...SIMULATION_VARIABLE_LABELS,
+  rentPerUnit: 'Nightly Rate ($)',
+  vacancyRate: 'Avg. Vacancy (%)',
+};
+
+export const simulationVariableLabelsFor = (property: PropertyData) =>
+  property.shortTermRental ? SHORT_TERM_RENTAL_VARIABLE_LABELS : SIMULATION_VARIABLE_LABELS;
+
+const currentValue = (key: SimulationVariableKey, property: PropertyData, params: FinancialParams) => {
+  switch (key) {
+    case 'rentPerUnit': return calculateRentLever(property, params.rentBasis);
+    case 'vacancyRate': return calculateVacancyLever(property);
+    case 'maintenanceAnnual': return calculateExpenseCategoryTotal(property, 'MAINTENANCE', params.rentBasis);
+    case 'taxesAnnual': return calculateExpenseCategoryTotal(property, 'TAXES', params.rentBasis);
+    case 'interestRate': return params.interestRate;
+  }
+};
+
+// Starting distributions centered on the current inputs. The AI estimates for rent and
+// taxes get a wider spread than the operating rates the user usually sets themselves.
+export const defaultSimulationVariables = (
+  property: PropertyData,
+  params: FinancialParams
+): SimulationVariable[] => {
+  const spreads: Record<SimulationVariableKey, { down: number; up: number }> = {
+    rentPerUnit: { down: 0.15, up: 0.1 },
+    vacancyRate: { down: 0.5, up: 1 },
+    maintenanceAnnual: { down: 0.3, up: 0.6 },
+    taxesAnnual: { down: 0.1, up: 0.25 },
+    interestRate: { down: 0.1, up: 0.15 },
+  };
+
+  return (Object.keys(spreads) as SimulationVariableKey[]).map((key) => {
+    const value = currentValue(key, property, params);
+    const min = value * (1 - spreads[key].down);
+    const max = value * (1 + spreads[key].up);
+    return {
+      key,
+      enabled: true,
+      type: 'TRIANGULAR',
+      min: Number(min.toFixed(2)),
+      mode: Number(value.toFixed(2)),
+      max: Number(max.toFixed(2)),
+      stdDev: Number(((max - min) / 4).toFixed(2)),
+    };
+  });
+};
+
+// Box-Muller transform
+const sampleStandardNormal = (random: () => number) => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+export const sampleDistribution = (variable: SimulationVariable, random: () => number = Math.random): number => {
+  const { type, min, mode, max, stdDev } = variable;
+  let value: number;
+
+  if (type === 'NORMAL') {
+    value = mode + stdDev * sampleStandardNormal(random);
+  } else if (type === 'TRIANGULAR') {
+    const low = Math.min(min, max);
+    const high = Math.max(min, max);
+    const peak = Math.min(high, Math.max(low, mode));
+    const u = random();
+    const split = high > low ? (peak - low) / (high - low) : 0;
+    value = u < split
+      ? low + Math.sqrt(u * (high - low) * (peak - low))
+      : high - Math.sqrt((1 - u) * (high - low) * (high - peak));
+  } else {
+    value = min + (max - min) * random();
+  }
+
+  // None of the simulated inputs can be negative
+  return Math.max(0, value);
+};
+
+const applySample = (
+  key: SimulationVariableKey,
+  value: number,
+  property: PropertyData,
+  params: FinancialParams
+): [PropertyData, FinancialParams] => {
+  switch (key) {
+    case 'rentPerUnit':
+      return [withRentLever(property, value, params.rentBasis), params];
+    case 'vacancyRate':
+      return [withVacancyLever(property, value), params];
+    case 'maintenanceAnnual':
+      return [withExpenseCategoryTotal(property, 'MAINTENANCE', value, params.rentBasis), params];
+    case 'taxesAnnual':
+      return [withExpenseCategoryTotal(property, 'TAXES', value, params.rentBasis), params];
+    case 'interestRate':
+      return [property, { ...params, interestRate: value }];
+  }
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+const summarize = (values: number[]): PercentileSummary => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean: values.reduce((sum, v) => sum + v, 0) / (values.length || 1),
+  };
+};
+
+const buildHistogram = (values: number[], bins = HISTOGRAM_BINS): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+  const width = max > min ? (max - min) / bins : 1;
+
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach((v) => {
+    const index = Math.min(bins - 1, Math.floor((v - min) / width));
+    histogram[index].count++;
+  });
+  return histogram;
+};
+
+export const runSimulation = (
+  property: PropertyData,
+  params: FinancialParams,
+  variables: SimulationVariable[],
+  iterations = DEFAULT_ITERATIONS,
+  onProgress?: (completed: number) => void,
+  random: () => number = Math.random
+): SimulationResult => {
+  const active = variables.filter(v => v.enabled);
+  const cashFlows: number[] = [];
+  const cashOnCash: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    let trialProperty = property;
+    let trialParams = params;
+    active.forEach((variable) => {
+      [trialProperty, trialParams] = applySample(
+        variable.key,
+        sampleDistribution(variable, random),
+        trialProperty,
+        trialParams
+      );
+    });
+
+    const metrics = calculateMetrics(trialProperty, trialParams);
+    cashFlows.push(metrics.annualCashFlow);
+    cashOnCash.push(metrics.cashOnCashReturn);
+
+    if (onProgress && (i + 1) % PROGRESS_INTERVAL === 0) onProgress(i + 1);
+  }
+
+  return {
+    iterations,
+    annualCashFlow: summarize(cashFlows),
+    cashOnCashReturn: summarize(cashOnCash),
+    probabilityNegativeCashFlow: cashFlows.filter(cf => cf < 0).length / (iterations || 1),
+    histogram: buildHistogram(cashFlows),
+  };
+};
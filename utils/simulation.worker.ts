@@ -0,0 +1,28 @@
+import { PropertyData, FinancialParams, SimulationVariable, SimulationResult } from '../types';
+import { runSimulation } from './simulation';
+
+export interface SimulationRequest {
+  property: PropertyData;
+  params: FinancialParams;
+  variables: SimulationVariable[];
+  iterations: number;
+}
+
+export type SimulationMessage =
+  | { type: 'progress'; completed: number }
+  | { type: 'done'; result: SimulationResult }
+  | { type: 'error'; message: string };
+
+const post = (message: SimulationMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { property, params, variables, iterations } = event.data;
+  try {
+    const result = runSimulation(property, params, variables, iterations, (completed) =>
+      post({ type: 'progress', completed })
+    );
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
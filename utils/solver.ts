@@ -0,0 +1,144 @@
+import {
+  PropertyData,
+  FinancialParams,
+  GoalSeekMetric,
+  GoalSeekVariable,
+  GoalSeekResult,
+} from '../types';
+import { calculateMetrics, calculateRentLever, withRentLever } from './calculations';
+
+export const GOAL_SEEK_METRICS: { key: GoalSeekMetric; label: string; unit: '%' | '$' | 'x' }[] = [
+  { key: 'capRate', label: 'Cap Rate', unit: '%' },
+  { key: 'cashOnCashReturn', label: 'Cash on Cash', unit: '%' },
+  { key: 'monthlyCashFlow', label: 'Monthly Cash Flow', unit: '$' },
+  { key: 'dscr', label: 'DSCR', unit: 'x' },
+];
+
+export const GOAL_SEEK_VARIABLES: { key: GoalSeekVariable; label: string }[] = [
+  { key: 'listPrice', label: 'Maximum Purchase Price' },
+  { key: 'rentPerUnit', label: 'Minimum Avg. Rent / Unit' },
+  { key: 'interestRate', label: 'Maximum Interest Rate' },
+];
+
+// A nightly rental solves for its average daily rate in place of the monthly rent
+const SHORT_TERM_RENTAL_GOAL_SEEK_VARIABLES = GOAL_SEEK_VARIABLES.map(v =>
+  v.key === 'rentPerUnit' ? { ...v, label: 'Minimum Nightly Rate' } : v
+);
+
+export const goalSeekVariablesFor = (property: PropertyData) =>
+  property.shortTermRental ? SHORT_TERM_RENTAL_GOAL_SEEK_VARIABLES : GOAL_SEEK_VARIABLES;
+
+const MAX_INTEREST_RATE = 30;
+const ITERATIONS = 100;
+
+export const evaluateGoalMetric = (
+  metric: GoalSeekMetric,
+  property: PropertyData,
+  params: FinancialParams
+): number => {
+  const metrics = calculateMetrics(property, params);
+  switch (metric) {
+    case 'monthlyCashFlow':
+      return metrics.annualCashFlow / 12;
+    case 'dscr':
+      // With no debt the coverage is unlimited
+      return metrics.annualDebtService > 0 ? metrics.dscr : Infinity;
+    default:
+      return metrics[metric];
+  }
+};
+
+export const currentGoalVariable = (
+  variable: GoalSeekVariable,
+  property: PropertyData,
+  params: FinancialParams
+): number => {
+  if (variable === 'listPrice') return property.listPrice;
+  if (variable === 'rentPerUnit') return calculateRentLever(property, params.rentBasis);
+  return params.interestRate;
+};
+
+export const applyGoalVariable = (
+  variable: GoalSeekVariable,
+  value: number,
+  property: PropertyData,
+  params: FinancialParams
+): [PropertyData, FinancialParams] => {
+  if (variable === 'listPrice') return [{ ...property, listPrice: value }, params];
+  if (variable === 'rentPerUnit') return [withRentLever(property, value, params.rentBasis), params];
+  return [property, { ...params, interestRate: value }];
+};
+
+// Every supported metric falls as price or rate rises and improves as rent rises, so each
+// solve is a bisection for the boundary where the metric crosses the target.
+export const solveForTarget = (
+  property: PropertyData,
+  params: FinancialParams,
+  metric: GoalSeekMetric,
+  target: number,
+  variable: GoalSeekVariable
+): GoalSeekResult => {
+  const meetsTarget = (value: number) => {
+    const [p, fp] = applyGoalVariable(variable, value, property, params);
+    return evaluateGoalMetric(metric, p, fp) >= target;
+  };
+  const achievedAt = (value: number) => {
+    const [p, fp] = applyGoalVariable(variable, value, property, params);
+    return evaluateGoalMetric(metric, p, fp);
+  };
+
+  const current = Math.max(1, currentGoalVariable(variable, property, params));
+
+  // 1. Bracket the boundary: `good` meets the target, `bad` does not
+  let good: number;
+  let bad: number;
+  let capped = false;
+
+  if (variable === 'interestRate') {
+    if (!meetsTarget(0)) return { value: null, achieved: achievedAt(0), capped: false };
+    if (meetsTarget(MAX_INTEREST_RATE)) {
+      return { value: MAX_INTEREST_RATE, achieved: achievedAt(MAX_INTEREST_RATE), capped: true };
+    }
+    good = 0;
+    bad = MAX_INTEREST_RATE;
+  } else if (variable === 'rentPerUnit') {
+    // Search upward for a rent high enough to meet the target
+    bad = 0;
+    good = current;
+    let expansions = 0;
+    while (!meetsTarget(good)) {
+      bad = good;
+      good *= 2;
+      if (++expansions > 30) return { value: null, achieved: achievedAt(good), capped: false };
+    }
+  } else {
+    // Search upward for a price too high to meet the target
+    good = 1;
+    if (!meetsTarget(good)) return { value: null, achieved: achievedAt(good), capped: false };
+    bad = current;
+    let expansions = 0;
+    while (meetsTarget(bad)) {
+      good = bad;
+      bad *= 2;
+      if (++expansions > 30) return { value: good, achieved: achievedAt(good), capped: true };
+    }
+  }
+
+  // 2. Bisect, always keeping `good` on the side that meets the target
+  for (let i = 0; i < ITERATIONS && Math.abs(bad - good) > 1e-6; i++) {
+    const mid = (good + bad) / 2;
+    if (meetsTarget(mid)) {
+      good = mid;
+    } else {
+      bad = mid;
+    }
+  }
+
+  // 3. Round to a value that can be typed in, staying on the side that meets the target
+  let value = good;
+  if (variable === 'listPrice') value = Math.floor(good);
+  if (variable === 'rentPerUnit') value = Math.ceil(good);
+  if (variable === 'interestRate') value = Math.floor(good * 100) / 100;
+
+  return { value, achieved: achievedAt(value), capped };
+};
@@ -0,0 +1,77 @@
+import { PropertyData, FinancialParams, TaxAnalysis, DepreciationSchedule } from '../types';
+import { calculateMetrics } from './calculations';
+import { buildLoanSchedule, buildSecondLoanSchedule, resolveFinancing } from './amortization';
+
+export const DEFAULT_TAX_ASSUMPTIONS = {
+  landValuePercent: 20,
+  depreciationSchedule: 'RESIDENTIAL' as DepreciationSchedule,
+  costSegregationPercent: 0,
+  bonusDepreciationPercent: 0,
+  marginalTaxRatePercent: 24,
+  deductMortgageInterest: true,
+};
+
+export const RECOVERY_PERIOD_YEARS: Record<DepreciationSchedule, number> = {
+  RESIDENTIAL: 27.5,
+  COMMERCIAL: 39,
+};
+
+// A cost segregation study mostly moves fixtures and finishes into 5-year property
+export const COST_SEGREGATION_LIFE_YEARS = 5;
+
+// Fill in tax assumptions missing from older saved or shared analyses
+export const resolveTaxAssumptions = (params: FinancialParams) => ({
+  landValuePercent: params.landValuePercent ?? DEFAULT_TAX_ASSUMPTIONS.landValuePercent,
+  depreciationSchedule: params.depreciationSchedule ?? DEFAULT_TAX_ASSUMPTIONS.depreciationSchedule,
+  costSegregationPercent: params.costSegregationPercent ?? DEFAULT_TAX_ASSUMPTIONS.costSegregationPercent,
+  bonusDepreciationPercent: params.bonusDepreciationPercent ?? DEFAULT_TAX_ASSUMPTIONS.bonusDepreciationPercent,
+  marginalTaxRatePercent: params.marginalTaxRatePercent ?? DEFAULT_TAX_ASSUMPTIONS.marginalTaxRatePercent,
+  deductMortgageInterest: params.deductMortgageInterest ?? DEFAULT_TAX_ASSUMPTIONS.deductMortgageInterest,
+});
+
+// Year-one taxes with full-year straight-line depreciation (no mid-month convention).
+// Losses are assumed usable against other income, i.e. no passive activity limits.
+export const calculateTaxAnalysis = (property: PropertyData, params: FinancialParams): TaxAnalysis => {
+  const tax = resolveTaxAssumptions(params);
+  const metrics = calculateMetrics(property, params);
+
+  // Closing costs are capitalized into the basis and split between land and building like the price
+  const closingCosts = property.listPrice * (params.closingCostsPercent / 100);
+  const depreciableBasis = (property.listPrice + closingCosts) * (1 - tax.landValuePercent / 100);
+  const reclassified = depreciableBasis * (tax.costSegregationPercent / 100);
+
+  const buildingDepreciation =
+    (depreciableBasis - reclassified) / RECOVERY_PERIOD_YEARS[tax.depreciationSchedule];
+  const bonus = reclassified * (tax.bonusDepreciationPercent / 100);
+  const costSegregationDepreciation = bonus + (reclassified - bonus) / COST_SEGREGATION_LIFE_YEARS;
+  const totalDepreciation = buildingDepreciation + costSegregationDepreciation;
+
+  const yearOne = [buildLoanSchedule(property, params, 12), buildSecondLoanSchedule(property, params, 12)]
+    .map(schedule => schedule?.annual[0]);
+  const yearOneInterest = yearOne.reduce((sum, row) => sum + (row?.interest ?? 0), 0);
+  const deductibleInterest = tax.deductMortgageInterest ? yearOneInterest : 0;
+
+  // Points and origination fees are deducted evenly over the life of the loan; PMI as paid
+  const { loanFees } = resolveFinancing(property, params);
+  const financingCosts =
+    (params.loanTermYears > 0 ? loanFees / params.loanTermYears : 0) +
+    yearOne.reduce((sum, row) => sum + (row?.pmi ?? 0), 0);
+
+  const taxableIncome = metrics.noi - totalDepreciation - deductibleInterest - financingCosts;
+  const incomeTax = taxableIncome * (tax.marginalTaxRatePercent / 100);
+  const afterTaxCashFlow = metrics.annualCashFlow - incomeTax;
+
+  return {
+    depreciableBasis,
+    buildingDepreciation,
+    costSegregationDepreciation,
+    totalDepreciation,
+    deductibleInterest,
+    financingCosts,
+    taxableIncome,
+    incomeTax,
+    afterTaxCashFlow,
+    afterTaxCashOnCash:
+      metrics.totalInitialInvestment > 0 ? (afterTaxCashFlow / metrics.totalInitialInvestment) * 100 : 0,
+  };
+};
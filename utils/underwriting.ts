@@ -0,0 +1,54 @@
+import { CalculationResult, LenderThresholds, UnderwritingCheck } from '../types';
+
+export const LENDER_THRESHOLDS_STORAGE_KEY = 'caprate_lender_thresholds';
+
+export const DEFAULT_LENDER_THRESHOLDS: LenderThresholds = {
+  minDscr: 1.25,
+  minDebtYield: 8,
+  maxBreakEvenOccupancy: 85,
+  maxOperatingExpenseRatio: null,
+  maxGrossRentMultiplier: null,
+};
+
+export const LENDER_THRESHOLD_FIELDS: {
+  key: keyof LenderThresholds;
+  metric: keyof CalculationResult;
+  label: string;
+  direction: 'min' | 'max';
+  unit: '%' | 'x';
+}[] = [
+  { key: 'minDscr', metric: 'dscr', label: 'DSCR', direction: 'min', unit: 'x' },
+  { key: 'minDebtYield', metric: 'debtYield', label: 'Debt Yield', direction: 'min', unit: '%' },
+  { key: 'maxBreakEvenOccupancy', metric: 'breakEvenOccupancy', label: 'Break-Even Occupancy', direction: 'max', unit: '%' },
+  { key: 'maxOperatingExpenseRatio', metric: 'operatingExpenseRatio', label: 'Expense Ratio', direction: 'max', unit: '%' },
+  { key: 'maxGrossRentMultiplier', metric: 'grossRentMultiplier', label: 'GRM', direction: 'max', unit: 'x' },
+];
+
+// Merge stored thresholds over the defaults so newly added thresholds get a value
+export const loadLenderThresholds = (raw: string | null): LenderThresholds => {
+  if (!raw) return DEFAULT_LENDER_THRESHOLDS;
+  try {
+    return { ...DEFAULT_LENDER_THRESHOLDS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error("Failed to parse lender thresholds", e);
+    return DEFAULT_LENDER_THRESHOLDS;
+  }
+};
+
+// Checks for every configured threshold. Debt-based checks are skipped for all-cash deals.
+export const evaluateUnderwriting = (
+  metrics: CalculationResult,
+  thresholds: LenderThresholds
+): UnderwritingCheck[] => {
+  const hasDebt = metrics.annualDebtService > 0;
+
+  return LENDER_THRESHOLD_FIELDS.flatMap((field) => {
+    const threshold = thresholds[field.key];
+    if (threshold === null) return [];
+    if (!hasDebt && (field.metric === 'dscr' || field.metric === 'debtYield')) return [];
+
+    const value = metrics[field.metric];
+    const passes = field.direction === 'min' ? value >= threshold : value <= threshold;
+    return [{ key: field.key, label: field.label, value, threshold, passes }];
+  });
+};
@@ -0,0 +1,123 @@
+import {
+  PropertyData,
+  FinancialParams,
+  ValueAddPlan,
+  ValueAddAnalysis,
+  RehabItem,
+  RentRollUnit,
+  AmortizationSchedule,
+} from '../types';
+import { calculateMetrics } from './calculations';
+import { buildLoanSchedule, buildSecondLoanSchedule, balanceAfterMonth } from './amortization';
+
+export const createRehabItem = (changes: Partial<RehabItem> = {}): RehabItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  name: 'Renovation',
+  cost: 0,
+  ...changes,
+});
+
+// Starting plan when value-add mode is switched on
+export const createValueAddPlan = (property: PropertyData, params: FinancialParams): ValueAddPlan => ({
+  rehabItems: [
+    createRehabItem({ name: 'Kitchens & Baths' }),
+    createRehabItem({ name: 'Flooring & Paint' }),
+  ],
+  rehabMonths: 6,
+  holdingCostsMonthly: 0,
+  afterRepairValue: Math.round(property.listPrice * 1.25),
+  postRehabRents: {},
+  refinanceLtvPercent: 75,
+  refinanceRate: params.interestRate,
+  refinanceTermYears: 30,
+  refinanceClosingCostsPercent: 2,
+});
+
+export const postRehabRent = (plan: ValueAddPlan, unit: RentRollUnit): number =>
+  plan.postRehabRents[unit.id] ?? unit.marketRent;
+
+// The stabilized property after rehab: valued at ARV with every unit leased at its post-rehab rent
+export const postRehabProperty = (property: PropertyData, plan: ValueAddPlan): PropertyData => {
+  const rentRoll = (property.rentRoll || []).map(unit => {
+    const rent = postRehabRent(plan, unit);
+    return { ...unit, currentRent: rent, marketRent: rent, occupied: true };
+  });
+  return {
+    ...property,
+    listPrice: plan.afterRepairValue,
+    rentRoll,
+    estimatedRentPerUnit: rentRoll.length > 0
+      ? rentRoll.reduce((sum, unit) => sum + unit.currentRent, 0) / rentRoll.length
+      : property.estimatedRentPerUnit,
+  };
+};
+
+// One fully amortizing fixed-rate loan at the refinance terms, with no acquisition extras
+export const refinanceParams = (params: FinancialParams, plan: ValueAddPlan): FinancialParams => ({
+  ...params,
+  downPaymentPercent: 100 - plan.refinanceLtvPercent,
+  interestRate: plan.refinanceRate,
+  loanTermYears: plan.refinanceTermYears,
+  closingCostsPercent: 0,
+  interestOnlyYears: 0,
+  rateResets: undefined,
+  balloonYears: undefined,
+  pointsPercent: 0,
+  originationFeePercent: 0,
+  pmiRatePercent: 0,
+  secondLoan: undefined,
+  extraPrincipalMonthly: 0,
+  oneTimePrepayments: undefined,
+  valueAdd: undefined,
+});
+
+// Assumes the units produce no rent during the rehab, so the acquisition loan payments and
+// holding costs for those months come out of pocket along with the rehab budget
+export const calculateValueAddAnalysis = (
+  property: PropertyData,
+  params: FinancialParams,
+  plan: ValueAddPlan
+): ValueAddAnalysis => {
+  const rehabMonths = Math.max(0, Math.round(plan.rehabMonths));
+  const acquisition = calculateMetrics(property, params);
+  const schedules = [
+    buildLoanSchedule(property, params, rehabMonths),
+    buildSecondLoanSchedule(property, params, rehabMonths),
+  ].filter((schedule): schedule is AmortizationSchedule => schedule !== null);
+
+  const rehabBudget = plan.rehabItems.reduce((sum, item) => sum + item.cost, 0);
+  const holdingCosts = plan.holdingCostsMonthly * rehabMonths;
+  const rehabDebtService = schedules.reduce(
+    (sum, schedule) => sum + schedule.payments.reduce((total, p) => total + p.payment - p.extraPrincipal, 0),
+    0
+  );
+  const totalCashInvested = acquisition.totalInitialInvestment + rehabBudget + holdingCosts + rehabDebtService;
+  const acquisitionPayoff = schedules.reduce((sum, schedule) => sum + balanceAfterMonth(schedule, rehabMonths), 0);
+
+  const refinanceLoanAmount = plan.afterRepairValue * (plan.refinanceLtvPercent / 100);
+  const refinanceClosingCosts = refinanceLoanAmount * (plan.refinanceClosingCostsPercent / 100);
+  const cashOutProceeds = refinanceLoanAmount - acquisitionPayoff - refinanceClosingCosts;
+  const cashLeftInDeal = totalCashInvested - cashOutProceeds;
+
+  const stabilized = calculateMetrics(postRehabProperty(property, plan), refinanceParams(params, plan));
+
+  return {
+    acquisitionCash: acquisition.totalInitialInvestment,
+    rehabBudget,
+    holdingCosts,
+    rehabDebtService,
+    totalCashInvested,
+    // Cash put in plus the debt still owed is everything spent, net of principal paid down
+    allInCost: totalCashInvested + acquisitionPayoff,
+    refinanceLoanAmount,
+    acquisitionPayoff,
+    refinanceClosingCosts,
+    cashOutProceeds,
+    cashLeftInDeal,
+    postRefiNoi: stabilized.noi,
+    postRefiDebtService: stabilized.annualDebtService,
+    postRefiCashFlow: stabilized.annualCashFlow,
+    postRefiCashOnCash: cashLeftInDeal > 0 ? (stabilized.annualCashFlow / cashLeftInDeal) * 100 : null,
+    postRefiDscr: stabilized.dscr,
+  };
+};
@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER ?? ''),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL ?? ''),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL ?? ''),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY ?? '')
       },
       resolve: {
         alias: {